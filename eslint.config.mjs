@@ -14,12 +14,13 @@ export default [
           parserOptions: {
               projectService: {
                   allowDefaultProject: [
-                      "src/tests/query-builder_test.ts",
-                      "src/tests/bucket-response_test.ts",
-                      "src/tests/response-types_test.ts",
+                      "src/tests/*_test.ts",
+                      "src/tests/helpers/*.ts",
                       "jest.config.js",
                       "eslint.config.mjs",
                   ],
+                  // Tests are excluded from tsconfig.json, so each one is linted through the default project.
+                  maximumDefaultProjectFileMatchCount_THIS_WILL_SLOW_DOWN_LINTING: 40,
               },
           },
       },
@@ -27,6 +27,13 @@ const BUCKET_NAMESPACE = 9592;
 /** Path to the local cache file. */
 const CACHE_PATH = path.join(__dirname, '.bucket_cache.json');
 
+/**
+ * The wiki returns `null` for a missing scalar value, so scalar fields are
+ * generated as `T | null` by default. Pass `--non-nullable` to emit the
+ * strict `T` types instead. Repeated fields are always arrays.
+ */
+const NULLABLE = !process.argv.includes('--non-nullable');
+
 /**
  * Valid TypeScript types for bucket fields.
  */
@@ -40,12 +47,20 @@ interface RawBucketField {
     repeated?: boolean;
 }
 
+/**
+ * Wiki field types, as emitted into the runtime metadata.
+ */
+type WikiType = 'TEXT' | 'INTEGER' | 'DECIMAL' | 'DOUBLE' | 'BOOLEAN' | 'PAGE';
+
 /**
  * Interface representing a processed field in our system.
  */
 interface BucketField {
     name: string;
     type: TSType;
+    wikiType: WikiType;
+    repeated: boolean;
+    nullable: boolean;
 }
 
 /**
@@ -70,7 +85,7 @@ type SchemaCache = Record<string, CacheEntry>;
 /**
  * Mappings from Wiki types to TypeScript types.
  */
-const TYPE_MAPPING: Record<string, 'string' | 'number' | 'boolean'> = {
+const TYPE_MAPPING: Record<WikiType, 'string' | 'number' | 'boolean'> = {
     'TEXT': 'string',
     'INTEGER': 'number',
     'DECIMAL': 'number',
@@ -150,14 +165,21 @@ async function fetchBucketSchema(title: string): Promise<Record<string, RawBucke
  * Converts a raw field definition to our internal BucketField interface.
  * @param fieldName The name of the field.
  * @param raw The raw field definition from the Wiki.
+ * @param nullable Whether scalar fields may be `null`.
  */
-function processField(fieldName: string, raw: RawBucketField): BucketField {
-    const baseType = TYPE_MAPPING[raw.type] || 'string';
-    const finalType = raw.repeated ? `${baseType}[]` as TSType : baseType;
+function processField(fieldName: string, raw: RawBucketField, nullable: boolean): BucketField {
+    // Unknown wiki types are treated as TEXT, matching the `string` fallback.
+    const wikiType: WikiType = raw.type in TYPE_MAPPING ? raw.type as WikiType : 'TEXT';
+    const baseType = TYPE_MAPPING[wikiType];
+    const repeated = raw.repeated === true;
+    const finalType = repeated ? `${baseType}[]` as TSType : baseType;
 
     return {
         name: fieldName,
         type: finalType,
+        wikiType,
+        repeated,
+        nullable: nullable && !repeated,
     };
 }
 
@@ -178,7 +200,7 @@ function generateDefinitionFile(definitions: BucketDefinition[]): string {
         for (const field of def.fields) {
             lines.push(`  /** ${field.name} */`);
             const safeName = /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(field.name) ? field.name : `'${field.name}'`;
-            lines.push(`  ${safeName}: ${field.type};`);
+            lines.push(`  ${safeName}: ${field.nullable ? `${field.type} | null` : field.type};`);
         }
         lines.push('}');
         lines.push('');
@@ -193,6 +215,29 @@ function generateDefinitionFile(definitions: BucketDefinition[]): string {
     lines.push('};');
     lines.push('');
 
+    lines.push('/** Wiki field types a bucket field can declare. */');
+    lines.push(`export type BucketFieldType = ${Object.keys(TYPE_MAPPING).map(t => `'${t}'`).join(' | ')};`);
+    lines.push('');
+    lines.push('/** Runtime type metadata for a single bucket field. */');
+    lines.push('export interface BucketFieldSchema {');
+    lines.push('  type: BucketFieldType;');
+    lines.push('  repeated: boolean;');
+    lines.push('  nullable: boolean;');
+    lines.push('}');
+    lines.push('');
+
+    lines.push('/** Runtime field type metadata for each bucket. */');
+    lines.push('export const BUCKET_FIELD_TYPES: Record<string, Record<string, BucketFieldSchema>> = {');
+    for (const def of definitions) {
+        lines.push(`  '${def.originalName}': {`);
+        for (const field of def.fields) {
+            lines.push(`    '${field.name}': { type: '${field.wikiType}', repeated: ${field.repeated}, nullable: ${field.nullable} },`);
+        }
+        lines.push('  },');
+    }
+    lines.push('};');
+    lines.push('');
+
     lines.push('/** Registry mapping bucket names to their types. */');
     lines.push('export interface BucketRegistry {');
     for (const def of definitions) {
@@ -247,7 +292,7 @@ async function main() {
             }
 
             newCache[bucketId] = { hash, schema };
-            const fields = Object.entries(schema).map(([k, v]) => processField(k, v));
+            const fields = Object.entries(schema).map(([k, v]) => processField(k, v, NULLABLE));
             definitions.push({
                 name: toPascalCase(bucketId),
                 originalName: bucketId,
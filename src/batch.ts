@@ -0,0 +1,151 @@
+/**
+ * Batched lookups of many keys with `whereIn`.
+ *
+ * One `where()` per key costs a request per key, and a single `whereIn()`
+ * over thousands of keys produces a URL the wiki rejects. {@link fetchByKeys}
+ * splits the keys into `whereIn` batches whose encoded `toUrl()` stays under
+ * a length limit, runs them, and merges the rows back into a map per key.
+ *
+ * @module batch
+ */
+
+import { BucketClient } from './client.js';
+import type { BucketExecutor } from './client.js';
+import { silentLogger } from './diagnostics.js';
+import type { BucketName } from './generated/definitions.js';
+import { BucketQueryBuilder } from './query-builder.js';
+import { isFieldSelected } from './query-lint.js';
+import type { ValidField } from './response-types.js';
+import type { ScalarValue } from './types.js';
+import { QUERY_DEFAULTS } from './types.js';
+
+type LooseBuilder = BucketQueryBuilder<BucketName, Record<string, BucketName>, Record<string, unknown>, boolean>;
+type LooseField = ValidField<BucketName, Record<string, BucketName>>;
+
+/**
+ * Options for {@link fetchByKeys}.
+ */
+export interface BatchOptions {
+    /** The executor to send the queries through. Defaults to a new {@link BucketClient}. */
+    executor?: BucketExecutor;
+    /** The longest `toUrl()` a batch may produce. Defaults to `QUERY_DEFAULTS.MAX_URL_LENGTH`. */
+    maxUrlLength?: number;
+    /** How many batches to run at once. Defaults to 1. */
+    concurrency?: number;
+}
+
+/**
+ * Fetches the rows matching each of many keys, batching the keys into as
+ * few `whereIn` queries as the URL length allows.
+ *
+ * Each batch is a clone of `base` with `.whereIn(field, batch)` added, so
+ * the base's selects, joins and conditions apply to every batch; `field` is
+ * selected when the base does not already select it. Every batch is fetched
+ * in full with {@link BucketQueryBuilder.fetchAll}. A key that alone exceeds
+ * `maxUrlLength` still gets its own batch.
+ *
+ * The result has an entry for every distinct key, in input order, holding
+ * the rows whose `field` equals it (or, for repeated fields, contains it).
+ * Keys and values are compared as strings, so `4151` matches `'4151'`.
+ * Duplicate rows are dropped.
+ *
+ * @param base - The query to run for each batch. It is not modified.
+ * @param field - The field to match the keys against.
+ * @param keys - The keys to look up.
+ * @param options - The executor, URL length limit and concurrency.
+ * @throws {BucketApiError} If the wiki rejects a query.
+ * @throws {BucketHttpError} If a request fails.
+ *
+ * @example
+ * ```typescript
+ * const prices = await fetchByKeys(bucket('exchange').select('name', 'value'), 'name', itemNames, {
+ *     concurrency: 2,
+ * });
+ * prices.get('Abyssal whip'); // [{ name: 'Abyssal whip', value: ..., ... }]
+ * ```
+ */
+export async function fetchByKeys<
+    TMain extends BucketName,
+    TJoinMap extends Record<string, BucketName>,
+    TSelected,
+    K extends ScalarValue,
+>(
+    base: BucketQueryBuilder<TMain, TJoinMap, TSelected, boolean>,
+    field: ValidField<TMain, TJoinMap>,
+    keys: readonly K[],
+    options: BatchOptions = {},
+): Promise<Map<K, TSelected[]>> {
+    const lookup = new Map<string, K>();
+    for (const key of keys) {
+        if (!lookup.has(String(key))) lookup.set(String(key), key);
+    }
+    const unique = [...lookup.values()];
+
+    // The batches only add conditions, so the rows keep the base's row type.
+    const query = base.clone() as unknown as LooseBuilder;
+    if (!isFieldSelected(query.toJSON().select, field)) query.select(field as LooseField);
+    const batchQuery = (batch: K[]): LooseBuilder => query.clone().whereIn(field as LooseField, batch);
+    const maxUrlLength = options.maxUrlLength ?? QUERY_DEFAULTS.MAX_URL_LENGTH;
+
+    // Each key adds its own condition (and a separator) to the URL, so the
+    // lengths are measured on a bare copy of the query (keeping its joins,
+    // which decide how fields print) and summed as keys are added.
+    const probe = BucketQueryBuilder.fromJSON(
+        { ...query.toJSON(), select: [], where: [], orderBy: [], limit: QUERY_DEFAULTS.LIMIT, offset: 0 },
+        { strict: false, logger: silentLogger },
+    );
+    const probeLength = (batch: K[]): number =>
+        probe
+            .clone()
+            .whereIn(field as LooseField, batch)
+            .urlLength();
+    const probeEmpty = probeLength([]);
+    const keyLength = (key: K): number => probeLength([key]) - probeEmpty;
+    const first = unique[0];
+    const separator = first === undefined ? 0 : probeLength([first, first]) - 2 * keyLength(first) - probeEmpty;
+    // fetchAll() adds `.limit()` and, past the first page, `.offset()`; leave room for both.
+    const emptyLength = batchQuery([]).limit(QUERY_DEFAULTS.MAX_LIMIT).offset(1e9).urlLength();
+
+    const batches: K[][] = [];
+    let current: K[] = [];
+    let length = emptyLength;
+    for (const key of unique) {
+        const added = keyLength(key);
+        if (current.length > 0 && length + separator + added > maxUrlLength) {
+            batches.push(current);
+            current = [];
+            length = emptyLength;
+        }
+        length += (current.length > 0 ? separator : 0) + added;
+        current.push(key);
+    }
+    if (current.length > 0) batches.push(current);
+
+    const executor = options.executor ?? new BucketClient();
+    const pages: Record<string, unknown>[][] = [];
+    let next = 0;
+    const worker = async (): Promise<void> => {
+        while (next < batches.length) {
+            const index = next++;
+            pages[index] = await batchQuery(batches[index] ?? []).fetchAll(executor);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, options.concurrency ?? 1) }, worker));
+
+    const result = new Map<K, TSelected[]>(unique.map((key) => [key, []]));
+    const seen = new Map<K, Set<string>>();
+    for (const row of pages.flat()) {
+        const value = row[field];
+        const serialised = JSON.stringify(row);
+        for (const candidate of Array.isArray(value) ? (value as unknown[]) : [value]) {
+            const key = lookup.get(String(candidate));
+            if (key === undefined) continue;
+            const keySeen = seen.get(key) ?? new Set();
+            if (keySeen.has(serialised)) continue;
+            keySeen.add(serialised);
+            seen.set(key, keySeen);
+            result.get(key)?.push(row as TSelected);
+        }
+    }
+    return result;
+}
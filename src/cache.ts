@@ -0,0 +1,283 @@
+/**
+ * Response caching for bucket queries.
+ *
+ * {@link CachingExecutor} wraps any {@link BucketExecutor} and serves repeat
+ * queries from a {@link BucketCacheStore}. Entries are keyed on the canonical
+ * `printSQL()` string, so two builders that produce the same Lua share a
+ * cache entry regardless of how they were chained. Cache hits are returned as
+ * regular {@link BucketResponse} instances, so calling code does not change.
+ *
+ * @module cache
+ */
+
+import type { BucketExecutor, ExecutableQuery } from './client.js';
+import type { BucketApiResponse } from './types.js';
+import { BucketResponse } from './types.js';
+
+/** Defaults used by the cache layer. */
+export const CACHE_DEFAULTS = {
+    /** Time-to-live for a cached response, in milliseconds (5 minutes). */
+    TTL_MS: 5 * 60 * 1000,
+    /** Maximum number of entries held before the least recently used is evicted. */
+    MAX_ENTRIES: 500,
+};
+
+/**
+ * A cached API payload and the moment it stops being valid.
+ */
+export interface BucketCacheEntry {
+    payload: BucketApiResponse;
+    /** Epoch milliseconds after which the entry is stale. */
+    expiresAt: number;
+}
+
+/**
+ * Storage backend for {@link CachingExecutor}.
+ *
+ * Implementations decide where entries live and how many are kept.
+ * All methods are async so stores can be backed by disk, Redis, etc.
+ */
+export interface BucketCacheStore {
+    get(key: string): Promise<BucketCacheEntry | undefined>;
+    set(key: string, entry: BucketCacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Options shared by the built-in stores.
+ */
+export interface CacheStoreOptions {
+    /** Maximum number of entries kept. Defaults to `CACHE_DEFAULTS.MAX_ENTRIES`. */
+    maxEntries?: number;
+}
+
+/**
+ * In-memory store with least-recently-used eviction.
+ *
+ * Relies on `Map` preserving insertion order: every read re-inserts the key
+ * at the end, so the first key is always the least recently used.
+ */
+export class MemoryCacheStore implements BucketCacheStore {
+    private readonly entries = new Map<string, BucketCacheEntry>();
+    private readonly maxEntries: number;
+
+    constructor(options: CacheStoreOptions = {}) {
+        this.maxEntries = options.maxEntries ?? CACHE_DEFAULTS.MAX_ENTRIES;
+    }
+
+    /** The number of entries currently held. */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): Promise<BucketCacheEntry | undefined> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return Promise.resolve(entry);
+    }
+
+    set(key: string, entry: BucketCacheEntry): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next();
+            if (oldest.done) break;
+            this.entries.delete(oldest.value);
+        }
+        return Promise.resolve();
+    }
+
+    delete(key: string): Promise<void> {
+        this.entries.delete(key);
+        return Promise.resolve();
+    }
+
+    clear(): Promise<void> {
+        this.entries.clear();
+        return Promise.resolve();
+    }
+
+    /**
+     * Returns every entry from least to most recently used.
+     */
+    snapshot(): Array<[string, BucketCacheEntry]> {
+        return Array.from(this.entries.entries());
+    }
+}
+
+/**
+ * Store that persists entries to a JSON file, so the cache survives restarts.
+ *
+ * Entries are held in a {@link MemoryCacheStore} (with the same LRU eviction)
+ * loaded from the file on first use, and the file is rewritten after every
+ * change. Node's `fs` module is imported lazily so bundles that never use
+ * this store do not pull in Node built-ins.
+ *
+ * @example
+ * ```typescript
+ * const cached = new CachingExecutor(new BucketClient(), {
+ *     store: new FileCacheStore('./.bucket-cache.json', { maxEntries: 2000 }),
+ * });
+ * ```
+ */
+export class FileCacheStore implements BucketCacheStore {
+    private loaded: Promise<MemoryCacheStore> | undefined;
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * @param filePath - Where the cache file is read from and written to.
+     * @param options - Eviction settings for the underlying memory store.
+     */
+    constructor(
+        private readonly filePath: string,
+        private readonly options: CacheStoreOptions = {},
+    ) {}
+
+    async get(key: string): Promise<BucketCacheEntry | undefined> {
+        const memory = await this.load();
+        return memory.get(key);
+    }
+
+    async set(key: string, entry: BucketCacheEntry): Promise<void> {
+        const memory = await this.load();
+        await memory.set(key, entry);
+        await this.persist(memory);
+    }
+
+    async delete(key: string): Promise<void> {
+        const memory = await this.load();
+        await memory.delete(key);
+        await this.persist(memory);
+    }
+
+    async clear(): Promise<void> {
+        const memory = await this.load();
+        await memory.clear();
+        await this.persist(memory);
+    }
+
+    /**
+     * Reads the cache file once. A missing or corrupt file starts an empty cache.
+     */
+    private load(): Promise<MemoryCacheStore> {
+        this.loaded ??= (async () => {
+            const memory = new MemoryCacheStore(this.options);
+            const { readFile } = await import('node:fs/promises');
+            try {
+                const stored = JSON.parse(await readFile(this.filePath, 'utf-8')) as Array<[string, BucketCacheEntry]>;
+                for (const [key, entry] of stored) {
+                    await memory.set(key, entry);
+                }
+            } catch {
+                // Nothing usable on disk yet.
+            }
+            return memory;
+        })();
+        return this.loaded;
+    }
+
+    /**
+     * Queues a rewrite of the cache file so concurrent changes never interleave.
+     * A failed write rejects only the change that queued it; later writes still run.
+     */
+    private persist(memory: MemoryCacheStore): Promise<void> {
+        const write = this.writing.then(async () => {
+            const { writeFile } = await import('node:fs/promises');
+            await writeFile(this.filePath, JSON.stringify(memory.snapshot()));
+        });
+        this.writing = write.catch(() => undefined);
+        return write;
+    }
+}
+
+/**
+ * Configuration for {@link CachingExecutor}.
+ */
+export interface CachingExecutorOptions {
+    /** How long a response stays fresh, in milliseconds. Defaults to `CACHE_DEFAULTS.TTL_MS`. */
+    ttlMs?: number;
+    /** Where entries are stored. Defaults to a {@link MemoryCacheStore}. */
+    store?: BucketCacheStore;
+    /** Size of the default memory store. Ignored when `store` is given. */
+    maxEntries?: number;
+    /** Clock used for expiry. Defaults to `Date.now`. */
+    now?: () => number;
+}
+
+/**
+ * Executor wrapper that caches successful responses.
+ *
+ * Responses that carry an API error are never cached, so a transient
+ * failure is retried on the next call. The cache keeps its own copy of
+ * each payload and every hit gets a fresh one, so editing a response's
+ * rows does not change what later calls receive.
+ *
+ * @example
+ * ```typescript
+ * const client = new CachingExecutor(new BucketClient(), { ttlMs: 60_000, maxEntries: 1000 });
+ *
+ * await query.execute(client); // hits the Wiki
+ * await query.execute(client); // served from the cache
+ * ```
+ */
+export class CachingExecutor implements BucketExecutor {
+    private readonly store: BucketCacheStore;
+    private readonly ttlMs: number;
+    private readonly now: () => number;
+
+    /**
+     * @param executor - The executor that fetches on a cache miss.
+     * @param options - TTL, storage and clock settings.
+     */
+    constructor(
+        private readonly executor: BucketExecutor,
+        options: CachingExecutorOptions = {},
+    ) {
+        this.ttlMs = options.ttlMs ?? CACHE_DEFAULTS.TTL_MS;
+        this.now = options.now ?? Date.now;
+        this.store =
+            options.store ??
+            new MemoryCacheStore(options.maxEntries === undefined ? {} : { maxEntries: options.maxEntries });
+    }
+
+    async execute<Q extends ExecutableQuery>(query: Q): Promise<BucketResponse<Q['__resultType']>> {
+        const key = query.printSQL();
+        const cached = await this.store.get(key);
+
+        if (cached && cached.expiresAt > this.now()) {
+            return BucketResponse.from(query, structuredClone(cached.payload) as BucketApiResponse<Q['__resultType']>);
+        }
+        if (cached) {
+            await this.store.delete(key);
+        }
+
+        const response = await this.executor.execute(query);
+        if (!response.error) {
+            await this.store.set(key, {
+                payload: structuredClone(response.toJSON()),
+                expiresAt: this.now() + this.ttlMs,
+            });
+        }
+        return response;
+    }
+
+    /**
+     * Drops the cached response for a query, if any.
+     *
+     * @param query - The query whose entry should be removed.
+     */
+    invalidate(query: ExecutableQuery): Promise<void> {
+        return this.store.delete(query.printSQL());
+    }
+
+    /**
+     * Drops every cached response.
+     */
+    clear(): Promise<void> {
+        return this.store.clear();
+    }
+}
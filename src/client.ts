@@ -0,0 +1,239 @@
+/**
+ * HTTP execution layer for bucket queries.
+ *
+ * The {@link BucketClient} turns a query builder into a typed
+ * {@link BucketResponse}. The network call itself is delegated to a
+ * {@link BucketTransport} function, which defaults to the global `fetch`
+ * so the package stays zero-dependency. Swap the transport to route
+ * requests through your own HTTP stack or to stub the API in tests.
+ *
+ * @module client
+ */
+
+import { BucketHttpError } from './errors.js';
+import type { BucketApiResponse } from './types.js';
+import { BucketResponse, QUERY_DEFAULTS } from './types.js';
+
+/**
+ * The OSRS Wiki API endpoint that bucket queries are sent to.
+ */
+export const BUCKET_API_URL = 'https://oldschool.runescape.wiki/api.php';
+
+/** The form-encoded API parameters of a Lua bucket query. */
+function bucketQueryParams(lua: string): string {
+    return `action=bucket&format=json&query=${encodeURIComponent(lua)}`;
+}
+
+/**
+ * Builds the GET URL of a Lua bucket query, with the query URI-encoded.
+ *
+ * @example
+ * ```typescript
+ * bucketApiUrl(query.printSQL()); // same as query.toUrl(), without the URL_TOO_LONG check
+ * ```
+ */
+export function bucketApiUrl(lua: string): string {
+    return `${BUCKET_API_URL}?${bucketQueryParams(lua)}`;
+}
+
+/**
+ * User-Agent sent with every request.
+ * The Wiki asks API clients to identify themselves with a contact URL.
+ */
+export const BUCKET_USER_AGENT =
+    '@dava96/osrs-wiki-bucket-builder (https://github.com/Dava96/osrs-wiki-bucket-builder)';
+
+/**
+ * A single HTTP request produced by the client and handed to the transport.
+ *
+ * Queries are sent as a GET to their `toUrl()`. Queries too long for a
+ * URL are sent as a POST to {@link BUCKET_API_URL} with the same
+ * parameters form-encoded in `body`.
+ */
+export interface BucketHttpRequest {
+    method: 'GET' | 'POST';
+    url: string;
+    headers: Record<string, string>;
+    /** The form-encoded parameters of a POST request. */
+    body?: string;
+}
+
+/**
+ * The transport's view of an HTTP response.
+ *
+ * Header names must be lower-cased. `body` is the parsed JSON payload, or
+ * the raw text when the body is not valid JSON (e.g. an HTML error page).
+ */
+export interface BucketHttpResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+/**
+ * Sends a {@link BucketHttpRequest} and resolves with the response.
+ * Transports should only reject on network failures — HTTP error statuses
+ * are reported through {@link BucketHttpResponse.status}.
+ */
+export type BucketTransport = (request: BucketHttpRequest) => Promise<BucketHttpResponse>;
+
+/**
+ * The minimal query surface the execution layer depends on.
+ * {@link BucketQueryBuilder} satisfies it.
+ */
+export interface ExecutableQuery<TResult = unknown> {
+    readonly __resultType: TResult;
+    toUrl(): string;
+    printSQL(): string;
+}
+
+/**
+ * Anything that can execute a query and return a typed response.
+ *
+ * {@link BucketClient} is the base implementation. Wrappers that add
+ * behaviour on top of another executor implement the same interface, so
+ * they can be passed anywhere a client is accepted.
+ */
+export interface BucketExecutor {
+    execute<Q extends ExecutableQuery>(query: Q): Promise<BucketResponse<Q['__resultType']>>;
+}
+
+/**
+ * Configuration for {@link BucketClient}.
+ */
+export interface BucketClientOptions {
+    /** The function that performs the HTTP call. Defaults to {@link fetchTransport}. */
+    transport?: BucketTransport;
+    /** Overrides the User-Agent header. Defaults to {@link BUCKET_USER_AGENT}. */
+    userAgent?: string;
+    /** Extra headers sent with every request. */
+    headers?: Record<string, string>;
+    /**
+     * Queries whose GET URL would be longer than this are sent as a
+     * form-encoded POST instead. Defaults to `QUERY_DEFAULTS.MAX_URL_LENGTH`.
+     */
+    maxGetUrlLength?: number;
+}
+
+/**
+ * Default transport backed by the global `fetch`.
+ */
+export const fetchTransport: BucketTransport = async (request) => {
+    const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        ...(request.body === undefined ? {} : { body: request.body }),
+    });
+    const text = await response.text();
+    return {
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: parseBody(text),
+    };
+};
+
+/**
+ * Parses a response body as JSON, falling back to the raw text.
+ */
+function parseBody(text: string): unknown {
+    try {
+        return JSON.parse(text) as unknown;
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Checks that a parsed body has the shape of a bucket API payload.
+ */
+function isBucketApiResponse(body: unknown): body is BucketApiResponse {
+    return typeof body === 'object' && body !== null && 'bucketQuery' in body;
+}
+
+/**
+ * Executes bucket queries against the OSRS Wiki API.
+ *
+ * @example
+ * ```typescript
+ * import { bucket, BucketClient } from '@dava96/osrs-wiki-bucket-builder';
+ *
+ * const client = new BucketClient();
+ * const query = bucket('exchange').select('name', 'value').where('name', 'Abyssal whip');
+ * const response = await client.execute(query);
+ * response.first()?.value; // ✅ typed as number | null
+ * ```
+ */
+export class BucketClient implements BucketExecutor {
+    private readonly transport: BucketTransport;
+    private readonly headers: Record<string, string>;
+    private readonly maxGetUrlLength: number;
+
+    constructor(options: BucketClientOptions = {}) {
+        this.transport = options.transport ?? fetchTransport;
+        this.headers = {
+            'User-Agent': options.userAgent ?? BUCKET_USER_AGENT,
+            ...options.headers,
+        };
+        this.maxGetUrlLength = options.maxGetUrlLength ?? QUERY_DEFAULTS.MAX_URL_LENGTH;
+    }
+
+    /**
+     * Sends the query and wraps the payload in a typed {@link BucketResponse}.
+     *
+     * API-level errors (e.g. an unknown bucket) are not thrown here — they
+     * surface through {@link BucketResponse.apiError} and {@link BucketResponse.results}
+     * exactly as with a manually fetched payload.
+     *
+     * The query is sent as a GET unless its URL would be longer than
+     * `maxGetUrlLength`, in which case it is POSTed form-encoded to
+     * {@link BUCKET_API_URL} without building the URL.
+     *
+     * @param query - The query to execute.
+     * @throws {BucketHttpError} When the API answers with a non-2xx status
+     *   or a body that is not a bucket payload.
+     */
+    async execute<Q extends ExecutableQuery>(query: Q): Promise<BucketResponse<Q['__resultType']>> {
+        const request = this.buildRequest(query);
+        const { url } = request;
+        const response = await this.transport(request);
+
+        if (response.status < 200 || response.status >= 300) {
+            throw new BucketHttpError(
+                `Bucket API request failed with HTTP ${String(response.status)}`,
+                response.status,
+                url,
+                response.body,
+            );
+        }
+
+        if (!isBucketApiResponse(response.body)) {
+            throw new BucketHttpError(
+                'Bucket API returned a body that is not a bucket response',
+                response.status,
+                url,
+                response.body,
+            );
+        }
+
+        return BucketResponse.from(query, response.body as BucketApiResponse<Q['__resultType']>);
+    }
+
+    /**
+     * Builds a GET request for the query, or a POST when the GET URL
+     * would be longer than `maxGetUrlLength`. Only this limit applies: the
+     * builder's `maxUrlLength` warning is not reported.
+     */
+    private buildRequest(query: ExecutableQuery): BucketHttpRequest {
+        const lua = query.printSQL();
+        const url = bucketApiUrl(lua);
+        if (url.length <= this.maxGetUrlLength) {
+            return { method: 'GET', url, headers: { ...this.headers } };
+        }
+        return {
+            method: 'POST',
+            url: BUCKET_API_URL,
+            headers: { ...this.headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: bucketQueryParams(lua),
+        };
+    }
+}
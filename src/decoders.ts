@@ -0,0 +1,279 @@
+/**
+ * Decoding of JSON stored in text fields.
+ *
+ * Several buckets keep structured data as a JSON string in a `TEXT` field
+ * (`dropsline.drop_json`, `recipe.production_json`, ...). The registry maps
+ * each `bucket.field` to a {@link BucketDecoder} that turns the string into
+ * a typed value, and {@link decodeRows} applies the registered decoders to
+ * response rows. Malformed wiki content does not abort decoding: the field
+ * is set to `null` and a {@link FieldDecodeFailure} is reported for it.
+ *
+ * @module decoders
+ */
+
+/** Any value `JSON.parse` can return. */
+export type BucketJsonValue = string | number | boolean | null | BucketJsonValue[] | BucketJsonObject;
+
+/** A parsed JSON object. */
+export interface BucketJsonObject {
+    [key: string]: BucketJsonValue;
+}
+
+/**
+ * `dropsline.drop_json`: one line of a monster's drop table, as written by
+ * the wiki's DropsLine template. Only the commonly used keys are listed.
+ */
+export interface DropsLineJson {
+    'Dropped from'?: string;
+    'Dropped item'?: string;
+    /** The quantity as written on the wiki, e.g. `'1'`, `'5-10'` or `'3 (noted)'`. */
+    'Drop Quantity'?: string;
+    /** The rarity as written on the wiki, e.g. `'1/128'`, `'Always'` or `'2 × 1/64'`. */
+    Rarity?: string;
+    'Alt Rarity'?: string;
+    Rolls?: string | number;
+    'Drop type'?: string;
+    'Drop level'?: string | number;
+    [key: string]: BucketJsonValue | undefined;
+}
+
+/**
+ * `recipe.production_json`: the inputs and output of one recipe. Quantities,
+ * levels and experience are strings as entered on the wiki.
+ */
+export interface RecipeProductionJson {
+    name?: string;
+    ticks?: string;
+    members?: string;
+    tools?: string;
+    facilities?: string;
+    materials?: { name: string; quantity: string; [key: string]: BucketJsonValue }[];
+    skills?: { name: string; level: string; experience: string; [key: string]: BucketJsonValue }[];
+    output?: { name: string; quantity: string; [key: string]: BucketJsonValue };
+    [key: string]: BucketJsonValue | undefined;
+}
+
+/**
+ * The decoded type of each registered `bucket.field`. Augment this
+ * interface when registering a decoder for another field, or to narrow one
+ * of the loosely typed built-in fields.
+ *
+ * @example
+ * ```typescript
+ * declare module '@dava96/osrs-wiki-bucket-builder' {
+ *     interface BucketDecodedFields {
+ *         music_map: { location_json: { x: number; y: number; plane: number }[] };
+ *     }
+ * }
+ * ```
+ */
+export interface BucketDecodedFields {
+    dropsline: { drop_json: DropsLineJson };
+    recipe: { production_json: RecipeProductionJson };
+    storeline: { sold_item_json: BucketJsonObject };
+    quest: { json: BucketJsonObject };
+    money_making_guide: { json: BucketJsonObject };
+    infobox_spell: { json: BucketJsonObject };
+    music_map: { location_json: BucketJsonValue };
+}
+
+/**
+ * Turns a field's raw string into its decoded value. Throw to report the
+ * content as malformed; the message ends up in {@link FieldDecodeFailure}.
+ */
+export type BucketDecoder<T> = (raw: string) => T;
+
+/** Every field name that has a decoder in some bucket. */
+type DecodableField = {
+    [B in keyof BucketDecodedFields]: keyof BucketDecodedFields[B];
+}[keyof BucketDecodedFields];
+
+/** The decoded type of `bucket.field`, or `V` when it has no decoder. */
+type DecodedValue<B, F, V> = B extends keyof BucketDecodedFields
+    ? F extends keyof BucketDecodedFields[B]
+        ? BucketDecodedFields[B][F] | null
+        : V
+    : V;
+
+/**
+ * A result row with its JSON fields decoded. Unprefixed keys are resolved
+ * against the main bucket `B`, `bucket.field` keys against the joined
+ * bucket. Decoded fields are `null` when the value was `null` or failed to
+ * decode. When `B` is not a literal bucket name, unprefixed fields that
+ * some bucket decodes are typed as `unknown`.
+ *
+ * @example
+ * ```typescript
+ * type R = DecodedRow<{ item_name: string | null; drop_json: string | null }, 'dropsline'>;
+ * // { item_name: string | null; drop_json: DropsLineJson | null }
+ * ```
+ */
+export type DecodedRow<T, B extends string> = {
+    [K in keyof T]: K extends `${infer Prefix}.${infer Field}`
+        ? DecodedValue<Prefix, Field, T[K]>
+        : string extends B
+          ? K extends DecodableField
+              ? unknown
+              : T[K]
+          : DecodedValue<B, K, T[K]>;
+};
+
+/**
+ * A field whose content could not be decoded.
+ */
+export interface FieldDecodeFailure {
+    /** Index of the offending row. */
+    row: number;
+    /** The row key, e.g. `'drop_json'` or `'recipe.production_json'`. */
+    field: string;
+    /** Why decoding failed, e.g. the `JSON.parse` error message. */
+    message: string;
+    /** The raw value. */
+    value: unknown;
+}
+
+/**
+ * The outcome of decoding a set of rows.
+ */
+export interface DecodeResult<R> {
+    /** The rows with decoded fields. Fields that failed to decode are `null`. */
+    rows: R[];
+    failures: FieldDecodeFailure[];
+}
+
+/**
+ * Options for {@link decodeRows} and {@link BucketResponse.decoded}.
+ */
+export interface DecodeOptions<B extends string = string> {
+    /**
+     * The main bucket whose decoders apply to unprefixed keys.
+     * {@link BucketResponse.decoded} reads it from the echoed query when omitted.
+     */
+    bucket?: B;
+}
+
+/**
+ * A decoder that parses any JSON value.
+ *
+ * @throws {SyntaxError} From `JSON.parse` when the content is not valid JSON.
+ */
+export function jsonDecoder<T extends BucketJsonValue = BucketJsonValue>(): BucketDecoder<T> {
+    return (raw) => JSON.parse(raw) as T;
+}
+
+/**
+ * A decoder that parses a JSON object, rejecting arrays and scalars.
+ *
+ * @throws {SyntaxError} From `JSON.parse` when the content is not valid JSON.
+ * @throws {TypeError} When the content is valid JSON but not an object.
+ */
+export function jsonObjectDecoder<T extends object = BucketJsonObject>(): BucketDecoder<T> {
+    return (raw) => {
+        const value = JSON.parse(raw) as unknown;
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new TypeError(`Expected a JSON object, got ${Array.isArray(value) ? 'array' : typeof value}`);
+        }
+        return value as T;
+    };
+}
+
+const decoders = new Map<string, BucketDecoder<unknown>>([
+    ['dropsline.drop_json', jsonObjectDecoder()],
+    ['recipe.production_json', jsonObjectDecoder()],
+    ['storeline.sold_item_json', jsonObjectDecoder()],
+    ['quest.json', jsonObjectDecoder()],
+    ['money_making_guide.json', jsonObjectDecoder()],
+    ['infobox_spell.json', jsonObjectDecoder()],
+    ['music_map.location_json', jsonDecoder()],
+]);
+
+/**
+ * Registers the decoder for a field, replacing any existing one.
+ *
+ * @param bucket - The bucket the field belongs to.
+ * @param field - The field name.
+ * @param decoder - Parses the raw string; throw to report malformed content.
+ *
+ * @example
+ * ```typescript
+ * registerDecoder('music_map', 'location_json', (raw) => parseLocations(JSON.parse(raw)));
+ * ```
+ */
+export function registerDecoder<B extends keyof BucketDecodedFields, F extends keyof BucketDecodedFields[B] & string>(
+    bucket: B,
+    field: F,
+    decoder: BucketDecoder<BucketDecodedFields[B][F]>,
+): void {
+    decoders.set(`${bucket}.${field}`, decoder);
+}
+
+/**
+ * Returns the decoder registered for `bucket.field`, if any.
+ */
+export function getDecoder(bucket: string, field: string): BucketDecoder<unknown> | undefined {
+    return decoders.get(`${bucket}.${field}`);
+}
+
+/**
+ * Resolves a row key to its decoder: unprefixed keys belong to the main
+ * bucket, `bucket.field` keys to the joined bucket.
+ */
+function decoderFor(mainBucket: string | undefined, key: string): BucketDecoder<unknown> | undefined {
+    const dot = key.indexOf('.');
+    if (dot === -1) {
+        return mainBucket === undefined ? undefined : getDecoder(mainBucket, key);
+    }
+    return getDecoder(key.slice(0, dot), key.slice(dot + 1));
+}
+
+/**
+ * Decodes the registered JSON fields of each row. The input rows are not
+ * modified. Empty strings decode to `null`. A field that fails to decode,
+ * or holds something other than a string or `null`, is set to `null` and
+ * reported in `failures`.
+ *
+ * @param rows - The rows to decode.
+ * @param options - The main bucket.
+ *
+ * @example
+ * ```typescript
+ * const { rows, failures } = decodeRows(raw.bucket, { bucket: 'dropsline' });
+ * rows[0]?.drop_json?.Rarity; // '1/128'
+ * // failures: [{ row: 3, field: 'drop_json', message: 'Unexpected token ...', value: '{"Rarity":' }]
+ * ```
+ */
+export function decodeRows<T, B extends string = string>(
+    rows: readonly T[],
+    options: DecodeOptions<B> = {},
+): DecodeResult<DecodedRow<T, B>> {
+    const failures: FieldDecodeFailure[] = [];
+
+    const decoded = rows.map((row, index) => {
+        if (typeof row !== 'object' || row === null) return row;
+
+        const copy = { ...row } as Record<string, unknown>;
+        for (const [field, value] of Object.entries(copy)) {
+            const decoder = decoderFor(options.bucket, field);
+            if (!decoder || value === null) continue;
+            if (value === '') {
+                copy[field] = null;
+                continue;
+            }
+
+            if (typeof value !== 'string') {
+                failures.push({ row: index, field, message: `Expected a string, got ${typeof value}`, value });
+                copy[field] = null;
+                continue;
+            }
+            try {
+                copy[field] = decoder(value);
+            } catch (e) {
+                failures.push({ row: index, field, message: e instanceof Error ? e.message : String(e), value });
+                copy[field] = null;
+            }
+        }
+        return copy;
+    });
+
+    return { rows: decoded as DecodedRow<T, B>[], failures };
+}
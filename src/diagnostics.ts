@@ -0,0 +1,135 @@
+/**
+ * Warning reporting for the query builder.
+ *
+ * Builder methods that accept questionable input (a limit above the
+ * maximum, ordering by an unselected field, a URL too long for a GET
+ * request) report a {@link BucketWarning} to a {@link BucketLogger}
+ * instead of writing to the console directly.
+ * The logger is set globally with {@link configureDiagnostics} or per
+ * builder with `bucket(name, { logger })`. In strict mode warnings are
+ * thrown as a {@link BucketWarningError} instead of being logged, and
+ * invalid arguments that would otherwise be silently corrected throw a
+ * {@link BucketValidationError}.
+ *
+ * @module diagnostics
+ */
+
+import { BucketWarningError } from './errors.js';
+import { QUERY_DEFAULTS } from './types.js';
+
+/**
+ * Stable identifiers for builder warnings.
+ *
+ * - `LIMIT_CLAMPED`: `limit()` was given more than `QUERY_DEFAULTS.MAX_LIMIT` and was clamped.
+ * - `ORDER_BY_NOT_SELECTED`: `orderBy()` on a field that is not selected, which the wiki may reject.
+ * - `URL_TOO_LONG`: `toUrl()` built a URL longer than `maxUrlLength`, which the wiki may reject as a GET request.
+ */
+export type BucketWarningCode = 'LIMIT_CLAMPED' | 'ORDER_BY_NOT_SELECTED' | 'URL_TOO_LONG';
+
+/**
+ * A warning raised while building a query.
+ */
+export interface BucketWarning {
+    code: BucketWarningCode;
+    message: string;
+    /** The argument that triggered the warning. */
+    value: unknown;
+}
+
+/**
+ * Receives builder warnings. Implement it to route warnings into your own
+ * logging, metrics or test assertions.
+ *
+ * @example
+ * ```typescript
+ * const logger: BucketLogger = { warn: (w) => log.warn({ code: w.code, value: w.value }, w.message) };
+ * ```
+ */
+export interface BucketLogger {
+    warn(warning: BucketWarning): void;
+}
+
+/** Writes each warning's message with `console.warn`. The default logger. */
+export const consoleLogger: BucketLogger = {
+    warn: (warning) => {
+        console.warn(warning.message);
+    },
+};
+
+/** Discards every warning. */
+export const silentLogger: BucketLogger = {
+    warn: () => undefined,
+};
+
+/**
+ * Where builder warnings go. Options passed to a builder override the
+ * global ones set with {@link configureDiagnostics}.
+ */
+export interface DiagnosticsOptions {
+    /** Receives warnings. Defaults to {@link consoleLogger}. */
+    logger?: BucketLogger;
+    /**
+     * Throw a {@link BucketWarningError} instead of logging, and a
+     * {@link BucketValidationError} subclass for invalid builder arguments
+     * (a non-positive limit, a page below 1, unknown buckets, aliases or
+     * fields). Defaults to `false`.
+     */
+    strict?: boolean;
+    /** Report `URL_TOO_LONG` when `toUrl()` is longer than this. Defaults to `QUERY_DEFAULTS.MAX_URL_LENGTH`. */
+    maxUrlLength?: number;
+}
+
+const globalDiagnostics: Required<DiagnosticsOptions> = {
+    logger: consoleLogger,
+    strict: false,
+    maxUrlLength: QUERY_DEFAULTS.MAX_URL_LENGTH,
+};
+
+/**
+ * Sets the logger, strictness and URL length limit used by every builder
+ * that doesn't override them. Omitted options keep their current value.
+ *
+ * @example
+ * ```typescript
+ * configureDiagnostics({ logger: silentLogger });
+ * configureDiagnostics({ strict: process.env.NODE_ENV !== 'production' });
+ * configureDiagnostics({ maxUrlLength: 8000 });
+ * ```
+ */
+export function configureDiagnostics(options: DiagnosticsOptions): void {
+    if (options.logger) globalDiagnostics.logger = options.logger;
+    if (options.strict !== undefined) globalDiagnostics.strict = options.strict;
+    if (options.maxUrlLength !== undefined) globalDiagnostics.maxUrlLength = options.maxUrlLength;
+}
+
+/**
+ * Whether strict mode applies to a builder with these options.
+ *
+ * @param options - The builder's own options, which take precedence over the global ones.
+ */
+export function isStrict(options: DiagnosticsOptions = {}): boolean {
+    return options.strict ?? globalDiagnostics.strict;
+}
+
+/**
+ * The URL length above which a builder with these options reports `URL_TOO_LONG`.
+ *
+ * @param options - The builder's own options, which take precedence over the global ones.
+ */
+export function urlLengthLimit(options: DiagnosticsOptions = {}): number {
+    return options.maxUrlLength ?? globalDiagnostics.maxUrlLength;
+}
+
+/**
+ * Reports a warning to the builder's logger, or to the global one.
+ *
+ * @param warning - The warning to report.
+ * @param options - The builder's own options, which take precedence over the global ones.
+ * @throws {BucketWarningError} In strict mode.
+ */
+export function reportWarning(warning: BucketWarning, options: DiagnosticsOptions = {}): void {
+    if (isStrict(options)) {
+        throw new BucketWarningError(warning);
+    }
+    (options.logger ?? globalDiagnostics.logger).warn(warning);
+}
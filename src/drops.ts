@@ -0,0 +1,261 @@
+/**
+ * Typed drop tables built from the `dropsline` and `drop_table_sources` buckets.
+ *
+ * A monster's drops are stored one row per line in `dropsline`, with the
+ * rarity and quantity as wiki text inside `drop_json`. Tables shared between
+ * monsters (the rare drop table, the gem drop table, ...) are not repeated
+ * per monster: `drop_table_sources` records how often the monster rolls on
+ * each, and the table's own lines live on the table's page.
+ * {@link fetchDropTable} queries both, parses the wiki text with
+ * {@link parseRarity} and {@link parseQuantity}, and prices every line with
+ * the joined `exchange.value`.
+ *
+ * @module drops
+ */
+
+import { BucketClient } from './client.js';
+import type { BucketExecutor } from './client.js';
+import { decodeRows } from './decoders.js';
+import type { DropsLineJson, FieldDecodeFailure } from './decoders.js';
+import { bucket } from './query-builder.js';
+
+/**
+ * A parsed drop quantity. A single amount has `min === max`.
+ */
+export interface DropQuantity {
+    min: number;
+    max: number;
+    /** Whether the drop is noted. */
+    noted: boolean;
+}
+
+/**
+ * One line of a {@link DropTable}.
+ */
+export interface DropLine {
+    item: string;
+    /** The rarity as written on the wiki, e.g. `'1/128'` or `'Always'`. */
+    rarity: string | undefined;
+    /** The chance of the line per roll, or `undefined` when the rarity is not numeric (e.g. `'Rare'`). */
+    probability: number | undefined;
+    /** The parsed quantity, or `undefined` when it could not be read. */
+    quantity: DropQuantity | undefined;
+    /** How many times the line is rolled per kill. */
+    rolls: number;
+    /** The Grand Exchange value of one item, or `null` when it has none. Coins are worth 1. */
+    value: number | null;
+    /**
+     * The value the line yields per kill on average: probability × rolls ×
+     * mean quantity × value. `undefined` when any of those is unknown.
+     */
+    expectedValue: number | undefined;
+    /** The shared table the line comes from, or `undefined` for the monster's own drops. */
+    table: string | undefined;
+}
+
+/**
+ * A shared table the monster rolls on, from `drop_table_sources`.
+ */
+export interface DropTableAccess {
+    table: string;
+    /** The chance of rolling on the table, as written on the wiki. */
+    rarity: string | undefined;
+    probability: number | undefined;
+    rolls: number;
+}
+
+/**
+ * A monster's full drop table.
+ */
+export interface DropTable {
+    monster: string;
+    /** The monster's own lines, followed by the lines of each shared table it rolls on. */
+    drops: DropLine[];
+    tables: DropTableAccess[];
+    /** The sum of every line's known `expectedValue`: the average loot value per kill. */
+    expectedValue: number;
+    /**
+     * `drop_json` values that could not be decoded. Those lines are left out.
+     * `row` counts the monster's own rows first, then the shared tables' rows.
+     */
+    failures: FieldDecodeFailure[];
+}
+
+/**
+ * Options for {@link fetchDropTable}.
+ */
+export interface DropTableOptions {
+    /** The executor to send the queries through. Defaults to a new {@link BucketClient}. */
+    executor?: BucketExecutor;
+    /** Fetch the lines of the shared tables the monster rolls on. Defaults to `true`. */
+    includeSharedTables?: boolean;
+}
+
+const WIKI_NOTES = /\[[^\]]*\]|\([^)]*\)/g;
+
+/**
+ * Parses a wiki rarity into a probability between 0 and 1.
+ *
+ * Understands `'Always'`, fractions (`'1/128'`, `'3/5,000'`, `'1/12.5'`),
+ * approximations (`'~1/64'`), multiplied fractions (`'2 × 1/64'`, `'2x 1/64'`)
+ * and percentages (`'2.5%'`). Bracketed notes are ignored. Returns
+ * `undefined` for text without a number, such as `'Rare'` or `'Varies'`.
+ *
+ * @example
+ * ```typescript
+ * parseRarity('1/128'); // 0.0078125
+ * parseRarity('2 × 1/64'); // 0.03125
+ * parseRarity('Rare'); // undefined
+ * ```
+ */
+export function parseRarity(rarity: string): number | undefined {
+    const text = rarity.replace(WIKI_NOTES, '').replace(/[,~≈]/g, '').trim().toLowerCase();
+    if (text === 'always') return 1;
+
+    const percent = /^(\d+(?:\.\d+)?)\s*%$/.exec(text);
+    if (percent) return Number(percent[1]) / 100;
+
+    const fraction = /^(?:(\d+(?:\.\d+)?)\s*[×x*]\s*)?(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/.exec(text);
+    if (!fraction) return undefined;
+    const denominator = Number(fraction[3]);
+    if (denominator === 0) return undefined;
+    return (Number(fraction[1] ?? 1) * Number(fraction[2])) / denominator;
+}
+
+/**
+ * Parses a wiki drop quantity.
+ *
+ * Understands single amounts (`'1'`, `'1,000'`), ranges (`'5-10'`,
+ * `'5–10'`), alternatives separated by `;` (`'3; 6'`, which span 3 to 6) and
+ * the `(noted)` marker. Returns `undefined` for text without a number, such
+ * as `'N/A'`.
+ *
+ * @example
+ * ```typescript
+ * parseQuantity('5-10 (noted)'); // { min: 5, max: 10, noted: true }
+ * ```
+ */
+export function parseQuantity(quantity: string): DropQuantity | undefined {
+    const noted = /\(noted\)/i.test(quantity);
+    const amounts: number[] = [];
+
+    for (const part of quantity.replace(WIKI_NOTES, '').replace(/,/g, '').split(';')) {
+        const range = /^\s*(\d+)\s*(?:[-–—]\s*(\d+))?\s*$/.exec(part);
+        if (!range) return undefined;
+        amounts.push(Number(range[1]), Number(range[2] ?? range[1]));
+    }
+    return { min: Math.min(...amounts), max: Math.max(...amounts), noted };
+}
+
+/** Builds a line from a decoded `dropsline` row, scaled by the shared table it was rolled from. */
+function toDropLine(
+    row: { item_name: string | null; drop_json: DropsLineJson | null; 'exchange.value': number | null },
+    access: DropTableAccess | undefined,
+): DropLine | undefined {
+    const json = row.drop_json;
+    const item = row.item_name ?? json?.['Dropped item'];
+    if (!json || item === undefined) return undefined;
+
+    const rarity = json.Rarity;
+    const lineProbability = rarity === undefined ? undefined : parseRarity(rarity);
+    const probability =
+        access === undefined
+            ? lineProbability
+            : lineProbability === undefined || access.probability === undefined
+              ? undefined
+              : lineProbability * access.probability;
+    const quantity = json['Drop Quantity'] === undefined ? undefined : parseQuantity(json['Drop Quantity']);
+    const rolls = (Number(json.Rolls ?? 1) || 1) * (access?.rolls ?? 1);
+    const value = item === 'Coins' ? 1 : row['exchange.value'];
+    const expectedValue =
+        probability === undefined || quantity === undefined || value === null
+            ? undefined
+            : probability * rolls * ((quantity.min + quantity.max) / 2) * value;
+
+    return { item, rarity, probability, quantity, rolls, value, expectedValue, table: access?.table };
+}
+
+/**
+ * Fetches and parses a monster's drop table.
+ *
+ * Runs up to three queries: the monster's `dropsline` rows and its
+ * `drop_table_sources` rows in parallel, then the `dropsline` rows of every
+ * shared table it rolls on in one `whereIn`. Lines from a shared table have
+ * their probability multiplied by the chance of rolling on the table.
+ *
+ * @param monster - The monster's page name, e.g. `'Goblin'`.
+ * @param options - The executor, and whether to expand shared tables.
+ * @throws {BucketApiError} If the wiki rejects a query.
+ * @throws {BucketHttpError} If a request fails.
+ *
+ * @example
+ * ```typescript
+ * const table = await fetchDropTable('Abyssal demon');
+ * const best = [...table.drops].sort((a, b) => (b.expectedValue ?? 0) - (a.expectedValue ?? 0))[0];
+ * console.log(`${String(table.expectedValue)} gp per kill, mostly from ${best?.item ?? 'nothing'}`);
+ * ```
+ */
+export async function fetchDropTable(monster: string, options: DropTableOptions = {}): Promise<DropTable> {
+    const executor = options.executor ?? new BucketClient();
+    const lines = bucket('dropsline')
+        .join('exchange', 'item_name', 'name')
+        .select('item_name', 'drop_json', 'exchange.value');
+
+    const [ownRows, sourceRows] = await Promise.all([
+        lines.clone().where('page_name', monster).fetchAll(executor),
+        options.includeSharedTables === false
+            ? Promise.resolve([])
+            : bucket('drop_table_sources')
+                  .select('table_name', 'rolls', 'rarity')
+                  .where('page_name', monster)
+                  .fetchAll(executor),
+    ]);
+
+    const tables: DropTableAccess[] = [];
+    for (const source of sourceRows) {
+        if (source.table_name === null) continue;
+        const rarity = source.rarity ?? undefined;
+        tables.push({
+            table: source.table_name,
+            rarity,
+            probability: rarity === undefined ? undefined : parseRarity(rarity),
+            rolls: source.rolls ?? 1,
+        });
+    }
+    const tableRows =
+        tables.length === 0
+            ? []
+            : await lines
+                  .clone()
+                  .whereIn(
+                      'page_name',
+                      tables.map((access) => access.table),
+                  )
+                  .fetchAll(executor);
+
+    const own = decodeRows(ownRows, { bucket: 'dropsline' });
+    const shared = decodeRows(tableRows, { bucket: 'dropsline' });
+    const drops: DropLine[] = [];
+    for (const row of own.rows) {
+        const line = toDropLine(row, undefined);
+        if (line) drops.push(line);
+    }
+    for (const access of tables) {
+        for (const row of shared.rows) {
+            if (row.page_name !== access.table) continue;
+            const line = toDropLine(row, access);
+            if (line) drops.push(line);
+        }
+    }
+
+    return {
+        monster,
+        drops,
+        tables,
+        expectedValue: drops.reduce((total, line) => total + (line.expectedValue ?? 0), 0),
+        failures: [
+            ...own.failures,
+            ...shared.failures.map((failure) => ({ ...failure, row: failure.row + ownRows.length })),
+        ],
+    };
+}
@@ -0,0 +1,422 @@
+/**
+ * Error classes thrown by the query builder and its execution layer.
+ *
+ * Every error carries the data needed to act on it programmatically,
+ * so callers can `instanceof`-switch instead of parsing messages.
+ *
+ * @module errors
+ */
+
+import type { BucketWarning, BucketWarningCode } from './diagnostics.js';
+
+/**
+ * Thrown when the Wiki API answers with a non-2xx HTTP status or a body
+ * that is not a bucket API payload.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     await query.execute();
+ * } catch (e) {
+ *     if (e instanceof BucketHttpError && e.status === 503) {
+ *         // the wiki is down for maintenance
+ *     }
+ * }
+ * ```
+ */
+export class BucketHttpError extends Error {
+    /**
+     * @param message - Human-readable description of the failure.
+     * @param status - The HTTP status code returned by the transport.
+     * @param url - The URL that was requested.
+     * @param body - The (parsed, if possible) response body.
+     */
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly url: string,
+        readonly body: unknown,
+    ) {
+        super(message);
+        this.name = 'BucketHttpError';
+    }
+}
+
+/**
+ * Thrown by {@link BucketResponse.results} when the Wiki API answered with
+ * an `error` instead of rows.
+ *
+ * Known wiki messages are classified into subclasses (unknown bucket,
+ * unknown field, Lua syntax error, timeout, limit exceeded); anything else
+ * is a plain `BucketApiError`. Every error keeps the raw message and the
+ * echoed query.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     rows = response.results;
+ * } catch (e) {
+ *     if (e instanceof BucketApiError && e.retryable) {
+ *         // e.g. a QueryTimeoutApiError: try again later
+ *     } else if (e instanceof UnknownFieldApiError) {
+ *         report(`schema drift: ${e.field ?? e.rawMessage} in ${e.bucketQuery}`);
+ *     }
+ * }
+ * ```
+ */
+export class BucketApiError extends Error {
+    /** Whether the same query may succeed if sent again later. */
+    readonly retryable: boolean = false;
+
+    /**
+     * @param rawMessage - The `error` string exactly as returned by the API.
+     * @param bucketQuery - The Lua query the API echoed back.
+     */
+    constructor(
+        readonly rawMessage: string,
+        readonly bucketQuery: string,
+    ) {
+        super(`Bucket API Error: ${rawMessage}`);
+        this.name = 'BucketApiError';
+    }
+}
+
+/** The queried or joined bucket does not exist on the wiki. */
+export class UnknownBucketApiError extends BucketApiError {
+    /**
+     * @param rawMessage - The `error` string exactly as returned by the API.
+     * @param bucketQuery - The Lua query the API echoed back.
+     * @param bucket - The bucket named in the message, when it could be extracted.
+     */
+    constructor(
+        rawMessage: string,
+        bucketQuery: string,
+        readonly bucket: string | undefined,
+    ) {
+        super(rawMessage, bucketQuery);
+        this.name = 'UnknownBucketApiError';
+    }
+}
+
+/** A selected, joined, filtered or ordered field does not exist on its bucket. */
+export class UnknownFieldApiError extends BucketApiError {
+    /**
+     * @param rawMessage - The `error` string exactly as returned by the API.
+     * @param bucketQuery - The Lua query the API echoed back.
+     * @param field - The field named in the message, when it could be extracted.
+     */
+    constructor(
+        rawMessage: string,
+        bucketQuery: string,
+        readonly field: string | undefined,
+    ) {
+        super(rawMessage, bucketQuery);
+        this.name = 'UnknownFieldApiError';
+    }
+}
+
+/** The wiki could not parse or run the Lua query. */
+export class LuaSyntaxApiError extends BucketApiError {
+    constructor(rawMessage: string, bucketQuery: string) {
+        super(rawMessage, bucketQuery);
+        this.name = 'LuaSyntaxApiError';
+    }
+}
+
+/** The query ran out of time on the wiki. Retrying later, or with a smaller limit, may succeed. */
+export class QueryTimeoutApiError extends BucketApiError {
+    override readonly retryable = true;
+
+    constructor(rawMessage: string, bucketQuery: string) {
+        super(rawMessage, bucketQuery);
+        this.name = 'QueryTimeoutApiError';
+    }
+}
+
+/** The query exceeded a wiki limit, such as the maximum row count. */
+export class LimitExceededApiError extends BucketApiError {
+    constructor(rawMessage: string, bucketQuery: string) {
+        super(rawMessage, bucketQuery);
+        this.name = 'LimitExceededApiError';
+    }
+}
+
+const QUOTED_NAME = String.raw`['"]?([^'"\s]+)['"]?`;
+
+// Includes Scribunto's own timeout: "The time allocated for running scripts has expired."
+const TIMEOUT_PATTERN =
+    /\btimed? ?out\b|\btime limit\b|\btook too long\b|\bexecution time\b|\btime allocated\b.*\bexpired\b/i;
+
+// Whole words only, so field names quoted in a Lua error (`max_hit`) do not match.
+const LIMIT_PATTERN = /\blimit\b.*\b(?:exceed(?:s|ed)?|maximum|max)\b|\bexceed(?:s|ed)?\b.*\blimit\b|\btoo many\b/i;
+
+const FIELD_PATTERN = new RegExp(
+    String.raw`\b(?:field|column)\s+${QUOTED_NAME}\s+(?:does not exist|not found|is not defined)|\b(?:unknown|invalid|undefined|no such) (?:field|column)\b(?:\s+${QUOTED_NAME})?`,
+    'i',
+);
+
+const BUCKET_PATTERN = new RegExp(
+    String.raw`\bbucket\s+${QUOTED_NAME}\s+(?:does not exist|not found)|\b(?:unknown|invalid|no such) bucket\b(?:\s+${QUOTED_NAME})?`,
+    'i',
+);
+
+const SYNTAX_PATTERN =
+    /\bsyntax error\b|\blua error\b|\bunexpected symbol\b|\bunfinished string\b|['"][()[\]{}]['"] expected\b/i;
+
+/** Drops sentence punctuation captured after an unquoted name. */
+function trimName(name: string | undefined): string | undefined {
+    return name?.replace(/[.,:;]+$/, '');
+}
+
+/**
+ * Turns an API `error` string into the most specific {@link BucketApiError}
+ * subclass whose pattern it matches. Unrecognised messages produce a plain
+ * `BucketApiError`, so callers can always fall back to `rawMessage`.
+ *
+ * @param rawMessage - The `error` string returned by the API.
+ * @param bucketQuery - The Lua query the API echoed back.
+ *
+ * @example
+ * ```typescript
+ * classifyBucketApiError("Bucket 'invalid_bucket' does not exist", query);
+ * // UnknownBucketApiError { bucket: 'invalid_bucket', ... }
+ * ```
+ */
+export function classifyBucketApiError(rawMessage: string, bucketQuery: string): BucketApiError {
+    if (TIMEOUT_PATTERN.test(rawMessage)) {
+        return new QueryTimeoutApiError(rawMessage, bucketQuery);
+    }
+    if (LIMIT_PATTERN.test(rawMessage)) {
+        return new LimitExceededApiError(rawMessage, bucketQuery);
+    }
+    const field = FIELD_PATTERN.exec(rawMessage);
+    if (field) {
+        return new UnknownFieldApiError(rawMessage, bucketQuery, trimName(field[1] ?? field[2]));
+    }
+    const bucket = BUCKET_PATTERN.exec(rawMessage);
+    if (bucket) {
+        return new UnknownBucketApiError(rawMessage, bucketQuery, trimName(bucket[1] ?? bucket[2]));
+    }
+    if (SYNTAX_PATTERN.test(rawMessage)) {
+        return new LuaSyntaxApiError(rawMessage, bucketQuery);
+    }
+    return new BucketApiError(rawMessage, bucketQuery);
+}
+
+/**
+ * Thrown by {@link parseBucketQuery} when a Lua query string cannot be parsed.
+ *
+ * `position` is the 0-based offset into the source; `line` and `column` are
+ * 1-based, ready to point an editor at the problem.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     parseBucketQuery("bucket('exchange').select('id',).run()");
+ * } catch (e) {
+ *     if (e instanceof BucketQueryParseError) {
+ *         console.warn(e.reason, e.line, e.column); // "Expected a string but found ')'" 1 32
+ *     }
+ * }
+ * ```
+ */
+export class BucketQueryParseError extends Error {
+    /** 1-based line of the offending token. */
+    readonly line: number;
+    /** 1-based column of the offending token. */
+    readonly column: number;
+
+    /**
+     * @param reason - What went wrong, without the location.
+     * @param source - The full Lua query string being parsed.
+     * @param position - The 0-based offset of the offending token.
+     */
+    constructor(
+        readonly reason: string,
+        readonly source: string,
+        readonly position: number,
+    ) {
+        const before = source.slice(0, position).split('\n');
+        const line = before.length;
+        const column = (before[before.length - 1]?.length ?? 0) + 1;
+        super(`${reason} at line ${String(line)}, column ${String(column)}`);
+        this.name = 'BucketQueryParseError';
+        this.line = line;
+        this.column = column;
+    }
+}
+
+/**
+ * Thrown by {@link BucketQueryBuilder.fromJSON} when the value is not a
+ * well-formed query AST of the supported version.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     BucketQueryBuilder.fromJSON(JSON.parse(saved));
+ * } catch (e) {
+ *     if (e instanceof BucketQueryAstError) {
+ *         console.warn(`saved query is invalid at ${e.path}`); // e.g. "where[0][1].operator"
+ *     }
+ * }
+ * ```
+ */
+export class BucketQueryAstError extends Error {
+    /**
+     * @param message - Human-readable description of the problem.
+     * @param path - Where in the AST the problem is, e.g. `'joins[0].target'` (`'$'` for the root).
+     */
+    constructor(
+        message: string,
+        readonly path: string,
+    ) {
+        super(message);
+        this.name = 'BucketQueryAstError';
+    }
+}
+
+/**
+ * Base class for the errors strict builders throw on invalid arguments.
+ * Catch it to turn bad user input into a 400 response:
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     bucket('exchange', { strict: true }).select(...fields).paginate(page, perPage);
+ * } catch (e) {
+ *     if (e instanceof BucketValidationError) {
+ *         return res.status(400).json({ error: e.name, message: e.message, argument: e.argument });
+ *     }
+ *     throw e;
+ * }
+ * ```
+ */
+export class BucketValidationError extends Error {
+    /**
+     * @param message - Human-readable description of the problem.
+     * @param argument - The offending argument, as passed to the builder.
+     */
+    constructor(
+        message: string,
+        readonly argument: unknown,
+    ) {
+        super(message);
+        this.name = 'BucketValidationError';
+    }
+}
+
+/** Thrown by a strict `limit()` for a limit that is not a positive integer. */
+export class InvalidLimitError extends BucketValidationError {
+    constructor(limit: number) {
+        super(`Invalid limit ${String(limit)}: expected a positive integer`, limit);
+        this.name = 'InvalidLimitError';
+    }
+}
+
+/** Thrown by a strict `offset()` for an offset that is not a non-negative integer. */
+export class InvalidOffsetError extends BucketValidationError {
+    constructor(offset: number) {
+        super(`Invalid offset ${String(offset)}: expected a non-negative integer`, offset);
+        this.name = 'InvalidOffsetError';
+    }
+}
+
+/** Thrown by a strict `paginate()` for a page that is not an integer of at least 1. */
+export class InvalidPageError extends BucketValidationError {
+    constructor(page: number) {
+        super(`Invalid page ${String(page)}: expected an integer of at least 1`, page);
+        this.name = 'InvalidPageError';
+    }
+}
+
+/** Thrown by a strict builder for a main or joined bucket that is not in the schema. */
+export class UnknownBucketError extends BucketValidationError {
+    constructor(readonly bucket: string) {
+        super(`Unknown bucket '${bucket}'`, bucket);
+        this.name = 'UnknownBucketError';
+    }
+}
+
+/** Thrown by a strict builder for an `alias.field` reference whose alias was never joined. */
+export class UnknownAliasError extends BucketValidationError {
+    /**
+     * @param alias - The unresolved prefix.
+     * @param field - The full field reference it came from.
+     */
+    constructor(
+        readonly alias: string,
+        field: string,
+    ) {
+        super(`Unknown alias '${alias}' in '${field}'`, field);
+        this.name = 'UnknownAliasError';
+    }
+}
+
+/** Thrown by a strict builder for a field that does not exist on its bucket. */
+export class UnknownFieldError extends BucketValidationError {
+    /**
+     * @param field - The field reference as passed to the builder.
+     * @param bucket - The bucket it was resolved against.
+     */
+    constructor(
+        field: string,
+        readonly bucket: string,
+    ) {
+        super(`Unknown field '${field}' in bucket '${bucket}'`, field);
+        this.name = 'UnknownFieldError';
+    }
+}
+
+/**
+ * Thrown in strict mode in place of a builder warning. See
+ * {@link configureDiagnostics}. `argument` is the warning's `value`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     bucket('exchange', { strict: true }).limit(10000);
+ * } catch (e) {
+ *     if (e instanceof BucketWarningError && e.code === 'LIMIT_CLAMPED') {
+ *         // e.warning.value === 10000
+ *     }
+ * }
+ * ```
+ */
+export class BucketWarningError extends BucketValidationError {
+    /** The warning's stable code. */
+    readonly code: BucketWarningCode;
+
+    /**
+     * @param warning - The warning that would have been logged.
+     */
+    constructor(readonly warning: BucketWarning) {
+        super(warning.message, warning.value);
+        this.name = 'BucketWarningError';
+        this.code = warning.code;
+    }
+}
+
+/**
+ * Thrown by {@link RecipeGraph.materialTree} when expanding an item leads
+ * back to itself, e.g. an item crafted from a material that is made from it.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *     graph.rawMaterials('Ancient essence');
+ * } catch (e) {
+ *     if (e instanceof RecipeCycleError) {
+ *         console.warn(`recipes loop: ${e.cycle.join(' → ')}`);
+ *     }
+ * }
+ * ```
+ */
+export class RecipeCycleError extends Error {
+    /**
+     * @param cycle - The items on the loop, starting and ending with the same item.
+     */
+    constructor(readonly cycle: string[]) {
+        super(`Recipe cycle: ${cycle.join(' → ')}`);
+        this.name = 'RecipeCycleError';
+    }
+}
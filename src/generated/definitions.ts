@@ -4,65 +4,65 @@
 /** definition for bountytaskline */
 export interface Bountytaskline {
   /** level */
-  level: number;
+  level: number | null;
   /** xp */
-  xp: number;
+  xp: number | null;
   /** notice_board */
-  notice_board: string;
+  notice_board: string | null;
   /** monster */
-  monster: string;
+  monster: string | null;
   /** monster_alt */
-  monster_alt: string;
+  monster_alt: string | null;
   /** item */
-  item: string;
+  item: string | null;
   /** qty */
-  qty: number;
+  qty: number | null;
   /** rarity */
-  rarity: string;
+  rarity: string | null;
   /** task_id */
-  task_id: number;
+  task_id: number | null;
   /** transcript */
-  transcript: string;
+  transcript: string | null;
 }
 
 /** definition for combat_achievement */
 export interface CombatAchievement {
   /** id */
-  id: number;
+  id: number | null;
   /** name */
-  name: string;
+  name: string | null;
   /** monster */
-  monster: string;
+  monster: string | null;
   /** task */
-  task: string;
+  task: string | null;
   /** tier */
-  tier: string;
+  tier: string | null;
   /** type */
-  type: string;
+  type: string | null;
   /** league_region */
-  league_region: string;
+  league_region: string | null;
 }
 
 /** definition for couriertaskline */
 export interface Couriertaskline {
   /** level */
-  level: number;
+  level: number | null;
   /** xp */
-  xp: number;
+  xp: number | null;
   /** notice_board */
-  notice_board: string;
+  notice_board: string | null;
   /** cargo_location */
-  cargo_location: string;
+  cargo_location: string | null;
   /** destination */
-  destination: string;
+  destination: string | null;
   /** item */
-  item: string;
+  item: string | null;
   /** qty */
-  qty: number;
+  qty: number | null;
   /** task_id */
-  task_id: number;
+  task_id: number | null;
   /** transcript */
-  transcript: string;
+  transcript: string | null;
 }
 
 /** definition for dependency_list */
@@ -76,67 +76,67 @@ export interface DependencyList {
 /** definition for drop_table_sources */
 export interface DropTableSources {
   /** table_name */
-  table_name: string;
+  table_name: string | null;
   /** quantity */
-  quantity: number;
+  quantity: number | null;
   /** rolls */
-  rolls: number;
+  rolls: number | null;
   /** rarity */
-  rarity: string;
+  rarity: string | null;
   /** approx */
-  approx: boolean;
+  approx: boolean | null;
   /** drop_level */
-  drop_level: string;
+  drop_level: string | null;
   /** drop_type */
-  drop_type: string;
+  drop_type: string | null;
 }
 
 /** definition for dropsline */
 export interface Dropsline {
   /** item_name */
-  item_name: string;
+  item_name: string | null;
   /** drop_json */
-  drop_json: string;
+  drop_json: string | null;
   /** rare_drop_table */
-  rare_drop_table: boolean;
+  rare_drop_table: boolean | null;
 }
 
 /** definition for exchange */
 export interface Exchange {
   /** id */
-  id: number;
+  id: number | null;
   /** name */
-  name: string;
+  name: string | null;
   /** value */
-  value: number;
+  value: number | null;
   /** is_alchable */
-  is_alchable: boolean;
+  is_alchable: boolean | null;
   /** high_alch */
-  high_alch: number;
+  high_alch: number | null;
   /** low_alch */
-  low_alch: number;
+  low_alch: number | null;
   /** limit */
-  limit: number;
+  limit: number | null;
   /** module */
-  module: string;
+  module: string | null;
   /** is_historical */
-  is_historical: boolean;
+  is_historical: boolean | null;
   /** json */
-  json: string;
+  json: string | null;
 }
 
 /** definition for feedback */
 export interface Feedback {
   /** id */
-  id: string;
+  id: string | null;
   /** comment */
-  comment: string;
+  comment: string | null;
   /** resolved */
-  resolved: boolean;
+  resolved: boolean | null;
   /** category */
   category: string[];
   /** timestamp */
-  timestamp: string;
+  timestamp: string | null;
 }
 
 /** definition for infobox_activity */
@@ -144,55 +144,55 @@ export interface InfoboxActivity {
   /** image */
   image: string[];
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** default_version */
-  default_version: boolean;
+  default_version: boolean | null;
 }
 
 /** definition for infobox_bonuses */
 export interface InfoboxBonuses {
   /** stab_attack_bonus */
-  stab_attack_bonus: number;
+  stab_attack_bonus: number | null;
   /** slash_attack_bonus */
-  slash_attack_bonus: number;
+  slash_attack_bonus: number | null;
   /** crush_attack_bonus */
-  crush_attack_bonus: number;
+  crush_attack_bonus: number | null;
   /** range_attack_bonus */
-  range_attack_bonus: number;
+  range_attack_bonus: number | null;
   /** magic_attack_bonus */
-  magic_attack_bonus: number;
+  magic_attack_bonus: number | null;
   /** stab_defence_bonus */
-  stab_defence_bonus: number;
+  stab_defence_bonus: number | null;
   /** slash_defence_bonus */
-  slash_defence_bonus: number;
+  slash_defence_bonus: number | null;
   /** crush_defence_bonus */
-  crush_defence_bonus: number;
+  crush_defence_bonus: number | null;
   /** range_defence_bonus */
-  range_defence_bonus: number;
+  range_defence_bonus: number | null;
   /** magic_defence_bonus */
-  magic_defence_bonus: number;
+  magic_defence_bonus: number | null;
   /** strength_bonus */
-  strength_bonus: number;
+  strength_bonus: number | null;
   /** ranged_strength_bonus */
-  ranged_strength_bonus: number;
+  ranged_strength_bonus: number | null;
   /** prayer_bonus */
-  prayer_bonus: number;
+  prayer_bonus: number | null;
   /** magic_damage_bonus */
-  magic_damage_bonus: number;
+  magic_damage_bonus: number | null;
   /** equipment_slot */
-  equipment_slot: string;
+  equipment_slot: string | null;
   /** weapon_attack_speed */
-  weapon_attack_speed: number;
+  weapon_attack_speed: number | null;
   /** weapon_attack_range */
-  weapon_attack_range: string;
+  weapon_attack_range: string | null;
   /** combat_style */
-  combat_style: string;
+  combat_style: string | null;
 }
 
 /** definition for infobox_construction */
 export interface InfoboxConstruction {
   /** default_version */
-  default_version: boolean;
+  default_version: boolean | null;
   /** image */
   image: string[];
   /** icon */
@@ -202,9 +202,9 @@ export interface InfoboxConstruction {
   /** object_id */
   object_id: number[];
   /** level */
-  level: number;
+  level: number | null;
   /** experience */
-  experience: number;
+  experience: number | null;
   /** uses_skill */
   uses_skill: string[];
 }
@@ -212,91 +212,91 @@ export interface InfoboxConstruction {
 /** definition for infobox_grid_master_unlock */
 export interface InfoboxGridMasterUnlock {
   /** image */
-  image: string;
+  image: string | null;
   /** difficulty */
-  difficulty: string;
+  difficulty: string | null;
   /** row */
-  row: string;
+  row: string | null;
   /** column */
-  column: string;
+  column: string | null;
 }
 
 /** definition for infobox_item */
 export interface InfoboxItem {
   /** item_name */
-  item_name: string;
+  item_name: string | null;
   /** image */
   image: string[];
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** item_id */
   item_id: string[];
   /** examine */
-  examine: string;
+  examine: string | null;
   /** high_alchemy_value */
-  high_alchemy_value: number;
+  high_alchemy_value: number | null;
   /** league_region */
-  league_region: string;
+  league_region: string | null;
   /** release_date */
-  release_date: string;
+  release_date: string | null;
   /** removal_date */
-  removal_date: string;
+  removal_date: string | null;
   /** value */
-  value: number;
+  value: number | null;
   /** weight */
-  weight: number;
+  weight: number | null;
   /** version_anchor */
-  version_anchor: string;
+  version_anchor: string | null;
   /** buy_limit */
-  buy_limit: number;
+  buy_limit: number | null;
   /** default_version */
-  default_version: boolean;
+  default_version: boolean | null;
   /** quest */
-  quest: string;
+  quest: string | null;
   /** tradeable */
-  tradeable: boolean;
+  tradeable: boolean | null;
 }
 
 /** definition for infobox_location */
 export interface InfoboxLocation {
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
 }
 
 /** definition for infobox_monster */
 export interface InfoboxMonster {
   /** default_version */
-  default_version: boolean;
+  default_version: boolean | null;
   /** name */
-  name: string;
+  name: string | null;
   /** image */
   image: string[];
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** id */
   id: string[];
   /** examine */
-  examine: string;
+  examine: string | null;
   /** league_region */
-  league_region: string;
+  league_region: string | null;
   /** release_date */
-  release_date: string;
+  release_date: string | null;
   /** version_anchor */
-  version_anchor: string;
+  version_anchor: string | null;
   /** combat_level */
-  combat_level: number;
+  combat_level: number | null;
   /** poisonous */
-  poisonous: string;
+  poisonous: string | null;
   /** attribute */
   attribute: string[];
   /** hitpoints */
-  hitpoints: number;
+  hitpoints: number | null;
   /** max_hit */
   max_hit: string[];
   /** slayer_level */
-  slayer_level: number;
+  slayer_level: number | null;
   /** slayer_experience */
-  slayer_experience: number;
+  slayer_experience: number | null;
   /** slayer_category */
   slayer_category: string[];
   /** uses_skill */
@@ -304,109 +304,109 @@ export interface InfoboxMonster {
   /** assigned_by */
   assigned_by: string[];
   /** attack_level */
-  attack_level: number;
+  attack_level: number | null;
   /** strength_level */
-  strength_level: number;
+  strength_level: number | null;
   /** defence_level */
-  defence_level: number;
+  defence_level: number | null;
   /** ranged_level */
-  ranged_level: number;
+  ranged_level: number | null;
   /** magic_level */
-  magic_level: number;
+  magic_level: number | null;
   /** magic_attack_bonus */
-  magic_attack_bonus: number;
+  magic_attack_bonus: number | null;
   /** range_attack_bonus */
-  range_attack_bonus: number;
+  range_attack_bonus: number | null;
   /** stab_attack_bonus */
-  stab_attack_bonus: number;
+  stab_attack_bonus: number | null;
   /** slash_attack_bonus */
-  slash_attack_bonus: number;
+  slash_attack_bonus: number | null;
   /** crush_attack_bonus */
-  crush_attack_bonus: number;
+  crush_attack_bonus: number | null;
   /** stab_defence_bonus */
-  stab_defence_bonus: number;
+  stab_defence_bonus: number | null;
   /** slash_defence_bonus */
-  slash_defence_bonus: number;
+  slash_defence_bonus: number | null;
   /** crush_defence_bonus */
-  crush_defence_bonus: number;
+  crush_defence_bonus: number | null;
   /** magic_defence_bonus */
-  magic_defence_bonus: number;
+  magic_defence_bonus: number | null;
   /** range_defence_bonus */
-  range_defence_bonus: number;
+  range_defence_bonus: number | null;
   /** light_range_defence_bonus */
-  light_range_defence_bonus: number;
+  light_range_defence_bonus: number | null;
   /** standard_range_defence_bonus */
-  standard_range_defence_bonus: number;
+  standard_range_defence_bonus: number | null;
   /** heavy_range_defence_bonus */
-  heavy_range_defence_bonus: number;
+  heavy_range_defence_bonus: number | null;
   /** attack_bonus */
-  attack_bonus: number;
+  attack_bonus: number | null;
   /** strength_bonus */
-  strength_bonus: number;
+  strength_bonus: number | null;
   /** range_strength_bonus */
-  range_strength_bonus: number;
+  range_strength_bonus: number | null;
   /** magic_damage_bonus */
-  magic_damage_bonus: number;
+  magic_damage_bonus: number | null;
   /** poison_immune */
-  poison_immune: string;
+  poison_immune: string | null;
   /** venom_immune */
-  venom_immune: string;
+  venom_immune: string | null;
   /** thrall_immune */
-  thrall_immune: string;
+  thrall_immune: string | null;
   /** cannon_immune */
-  cannon_immune: string;
+  cannon_immune: string | null;
   /** burn_immune */
-  burn_immune: string;
+  burn_immune: string | null;
   /** attack_style */
   attack_style: string[];
   /** attack_speed */
-  attack_speed: number;
+  attack_speed: number | null;
   /** experience_bonus */
-  experience_bonus: number;
+  experience_bonus: number | null;
   /** flat_armour */
-  flat_armour: number;
+  flat_armour: number | null;
   /** size */
-  size: number;
+  size: number | null;
   /** freeze_resistance */
-  freeze_resistance: string;
+  freeze_resistance: string | null;
   /** elemental_weakness */
-  elemental_weakness: string;
+  elemental_weakness: string | null;
   /** elemental_weakness_percent */
-  elemental_weakness_percent: number;
+  elemental_weakness_percent: number | null;
 }
 
 /** definition for infobox_npc */
 export interface InfoboxNpc {
   /** default_version */
-  default_version: boolean;
+  default_version: boolean | null;
   /** image */
   image: string[];
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** league_region */
-  league_region: string;
+  league_region: string | null;
   /** npc_id */
   npc_id: string[];
   /** npc_name */
-  npc_name: string;
+  npc_name: string | null;
   /** release */
-  release: string;
+  release: string | null;
   /** examine */
-  examine: string;
+  examine: string | null;
   /** location */
-  location: string;
+  location: string | null;
   /** quest */
-  quest: string;
+  quest: string | null;
 }
 
 /** definition for infobox_pure */
 export interface InfoboxPure {
   /** name */
-  name: string;
+  name: string | null;
   /** image */
-  image: string;
+  image: string | null;
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** type */
   type: string[];
   /** max_hit */
@@ -414,21 +414,21 @@ export interface InfoboxPure {
   /** combat_level */
   combat_level: string[];
   /** hitpoints */
-  hitpoints: string;
+  hitpoints: string | null;
   /** attack_level */
-  attack_level: string;
+  attack_level: string | null;
   /** strength_level */
-  strength_level: string;
+  strength_level: string | null;
   /** defence_level */
-  defence_level: string;
+  defence_level: string | null;
   /** ranged_level */
-  ranged_level: string;
+  ranged_level: string | null;
   /** magic_level */
-  magic_level: string;
+  magic_level: string | null;
   /** prayer_level */
-  prayer_level: string;
+  prayer_level: string | null;
   /** attack_style */
-  attack_style: string;
+  attack_style: string | null;
   /** all_attack_style */
   all_attack_style: string[];
 }
@@ -436,15 +436,15 @@ export interface InfoboxPure {
 /** definition for infobox_scenery */
 export interface InfoboxScenery {
   /** default_version */
-  default_version: boolean;
+  default_version: boolean | null;
   /** image */
   image: string[];
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** league_region */
-  league_region: string;
+  league_region: string | null;
   /** release */
-  release: string;
+  release: string | null;
   /** object_id */
   object_id: number[];
   /** npc_id */
@@ -466,23 +466,23 @@ export interface InfoboxShipPart {
 /** definition for infobox_spell */
 export interface InfoboxSpell {
   /** image */
-  image: string;
+  image: string | null;
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** spellbook */
-  spellbook: string;
+  spellbook: string | null;
   /** uses_material */
   uses_material: string[];
   /** json */
-  json: string;
+  json: string | null;
 }
 
 /** definition for interface */
 export interface Interface {
   /** name */
-  name: string;
+  name: string | null;
   /** id */
-  id: number;
+  id: number | null;
 }
 
 /** definition for item_id */
@@ -494,11 +494,11 @@ export interface ItemId {
 /** definition for locline */
 export interface Locline {
   /** members */
-  members: boolean;
+  members: boolean | null;
   /** mapid */
-  mapid: number;
+  mapid: number | null;
   /** plane */
-  plane: number;
+  plane: number | null;
   /** coordinates */
   coordinates: string[];
   /** leagueregion */
@@ -508,77 +508,77 @@ export interface Locline {
 /** definition for logs */
 export interface Logs {
   /** module */
-  module: string;
+  module: string | null;
   /** message */
-  message: string;
+  message: string | null;
 }
 
 /** definition for map */
 export interface Map {
   /** features */
-  features: string;
+  features: string | null;
   /** options */
-  options: string;
+  options: string | null;
   /** is_historic */
-  is_historic: boolean;
+  is_historic: boolean | null;
 }
 
 /** definition for mine */
 export interface Mine {
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** json */
-  json: string;
+  json: string | null;
 }
 
 /** definition for money_making_guide */
 export interface MoneyMakingGuide {
   /** value */
-  value: string;
+  value: string | null;
   /** recurring */
-  recurring: boolean;
+  recurring: boolean | null;
   /** json */
-  json: string;
+  json: string | null;
 }
 
 /** definition for music */
 export interface Music {
   /** title */
-  title: string;
+  title: string | null;
   /** sort_name */
-  sort_name: string;
+  sort_name: string | null;
   /** number */
-  number: number;
+  number: number | null;
   /** duration */
-  duration: string;
+  duration: string | null;
   /** composer */
   composer: string[];
   /** unlock_hint */
-  unlock_hint: string;
+  unlock_hint: string | null;
   /** track */
-  track: string;
+  track: string | null;
   /** release_date */
-  release_date: string;
+  release_date: string | null;
   /** release_update */
-  release_update: string;
+  release_update: string | null;
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** is_jingle */
-  is_jingle: boolean;
+  is_jingle: boolean | null;
   /** is_event */
-  is_event: boolean;
+  is_event: boolean | null;
   /** unlock_detail */
-  unlock_detail: string;
+  unlock_detail: string | null;
 }
 
 /** definition for music_map */
 export interface MusicMap {
   /** location_json */
-  location_json: string;
+  location_json: string | null;
   /** music_tracks */
-  music_tracks: string;
+  music_tracks: string | null;
   /** is_historic */
-  is_historic: boolean;
+  is_historic: boolean | null;
 }
 
 /** definition for npc_id */
@@ -596,23 +596,23 @@ export interface ObjectId {
 /** definition for quest */
 export interface Quest {
   /** description */
-  description: string;
+  description: string | null;
   /** enemies_to_defeat */
-  enemies_to_defeat: string;
+  enemies_to_defeat: string | null;
   /** ironman_concerns */
-  ironman_concerns: string;
+  ironman_concerns: string | null;
   /** items_required */
-  items_required: string;
+  items_required: string | null;
   /** official_difficulty */
-  official_difficulty: string;
+  official_difficulty: string | null;
   /** official_length */
-  official_length: string;
+  official_length: string | null;
   /** requirements */
-  requirements: string;
+  requirements: string | null;
   /** start_point */
-  start_point: string;
+  start_point: string | null;
   /** json */
-  json: string;
+  json: string | null;
 }
 
 /** definition for recipe */
@@ -624,105 +624,105 @@ export interface Recipe {
   /** uses_facility */
   uses_facility: string[];
   /** is_members_only */
-  is_members_only: boolean;
+  is_members_only: boolean | null;
   /** is_boostable */
   is_boostable: string[];
   /** uses_skill */
   uses_skill: string[];
   /** source_template */
-  source_template: string;
+  source_template: string | null;
   /** production_json */
-  production_json: string;
+  production_json: string | null;
 }
 
 /** definition for recommended_equipment */
 export interface RecommendedEquipment {
   /** json */
-  json: string;
+  json: string | null;
 }
 
 /** definition for seachart */
 export interface Seachart {
   /** description */
-  description: string;
+  description: string | null;
   /** id */
-  id: number;
+  id: number | null;
   /** level */
-  level: number;
+  level: number | null;
   /** type */
-  type: string;
+  type: string | null;
   /** sea */
-  sea: string;
+  sea: string | null;
   /** ocean */
-  ocean: string;
+  ocean: string | null;
   /** location */
-  location: string;
+  location: string | null;
   /** location2 */
-  location2: string;
+  location2: string | null;
   /** hazard */
-  hazard: string;
+  hazard: string | null;
   /** xp */
-  xp: number;
+  xp: number | null;
 }
 
 /** definition for sound_effect */
 export interface SoundEffect {
   /** name */
-  name: string;
+  name: string | null;
   /** id */
-  id: number;
+  id: number | null;
 }
 
 /** definition for storeline */
 export interface Storeline {
   /** sold_by */
-  sold_by: string;
+  sold_by: string | null;
   /** sold_item */
-  sold_item: string;
+  sold_item: string | null;
   /** sold_item_image */
-  sold_item_image: string;
+  sold_item_image: string | null;
   /** store_buy_price */
-  store_buy_price: string;
+  store_buy_price: string | null;
   /** store_sell_price */
-  store_sell_price: string;
+  store_sell_price: string | null;
   /** store_currency */
-  store_currency: string;
+  store_currency: string | null;
   /** store_delta */
-  store_delta: string;
+  store_delta: string | null;
   /** store_stock */
-  store_stock: string;
+  store_stock: string | null;
   /** store_buy_multiplier */
-  store_buy_multiplier: string;
+  store_buy_multiplier: string | null;
   /** store_sell_multiplier */
-  store_sell_multiplier: string;
+  store_sell_multiplier: string | null;
   /** restock_time */
-  restock_time: string;
+  restock_time: string | null;
   /** store_notes */
-  store_notes: string;
+  store_notes: string | null;
   /** sold_item_json */
-  sold_item_json: string;
+  sold_item_json: string | null;
 }
 
 /** definition for testing_bucket */
 export interface TestingBucket {
   /** PAGE_NR */
-  PAGE_NR: string;
+  PAGE_NR: string | null;
   /** PAGE_R */
   PAGE_R: string[];
   /** TEXT_NR */
-  TEXT_NR: string;
+  TEXT_NR: string | null;
   /** TEXT_R */
   TEXT_R: string[];
   /** INTEGER_NR */
-  INTEGER_NR: number;
+  INTEGER_NR: number | null;
   /** INTEGER_R */
   INTEGER_R: number[];
   /** DOUBLE_NR */
-  DOUBLE_NR: number;
+  DOUBLE_NR: number | null;
   /** DOUBLE_R */
   DOUBLE_R: number[];
   /** BOOLEAN_NR */
-  BOOLEAN_NR: boolean;
+  BOOLEAN_NR: boolean | null;
   /** BOOLEAN_R */
   BOOLEAN_R: boolean[];
 }
@@ -736,25 +736,25 @@ export interface Transcript {
 /** definition for update */
 export interface Update {
   /** date */
-  date: number;
+  date: number | null;
   /** type */
-  type: string;
+  type: string | null;
   /** year */
-  year: number;
+  year: number | null;
   /** month */
-  month: number;
+  month: number | null;
   /** day */
-  day: number;
+  day: number | null;
 }
 
 /** definition for varbit */
 export interface Varbit {
   /** content */
-  content: string;
+  content: string | null;
   /** name */
-  name: string;
+  name: string | null;
   /** index */
-  index: number;
+  index: number | null;
 }
 
 /** Runtime list of fields for each bucket. */
@@ -802,6 +802,398 @@ export const BUCKET_FIELDS: Record<string, string[]> = {
   'varbit': ['content', 'name', 'index'],
 };
 
+/** Wiki field types a bucket field can declare. */
+export type BucketFieldType = 'TEXT' | 'INTEGER' | 'DECIMAL' | 'DOUBLE' | 'BOOLEAN' | 'PAGE';
+
+/** Runtime type metadata for a single bucket field. */
+export interface BucketFieldSchema {
+  type: BucketFieldType;
+  repeated: boolean;
+  nullable: boolean;
+}
+
+/** Runtime field type metadata for each bucket. */
+export const BUCKET_FIELD_TYPES: Record<string, Record<string, BucketFieldSchema>> = {
+  'bountytaskline': {
+    'level': { type: 'INTEGER', repeated: false, nullable: true },
+    'xp': { type: 'DOUBLE', repeated: false, nullable: true },
+    'notice_board': { type: 'TEXT', repeated: false, nullable: true },
+    'monster': { type: 'TEXT', repeated: false, nullable: true },
+    'monster_alt': { type: 'TEXT', repeated: false, nullable: true },
+    'item': { type: 'TEXT', repeated: false, nullable: true },
+    'qty': { type: 'INTEGER', repeated: false, nullable: true },
+    'rarity': { type: 'TEXT', repeated: false, nullable: true },
+    'task_id': { type: 'INTEGER', repeated: false, nullable: true },
+    'transcript': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'combat_achievement': {
+    'id': { type: 'INTEGER', repeated: false, nullable: true },
+    'name': { type: 'TEXT', repeated: false, nullable: true },
+    'monster': { type: 'TEXT', repeated: false, nullable: true },
+    'task': { type: 'TEXT', repeated: false, nullable: true },
+    'tier': { type: 'TEXT', repeated: false, nullable: true },
+    'type': { type: 'TEXT', repeated: false, nullable: true },
+    'league_region': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'couriertaskline': {
+    'level': { type: 'INTEGER', repeated: false, nullable: true },
+    'xp': { type: 'DOUBLE', repeated: false, nullable: true },
+    'notice_board': { type: 'TEXT', repeated: false, nullable: true },
+    'cargo_location': { type: 'TEXT', repeated: false, nullable: true },
+    'destination': { type: 'TEXT', repeated: false, nullable: true },
+    'item': { type: 'TEXT', repeated: false, nullable: true },
+    'qty': { type: 'INTEGER', repeated: false, nullable: true },
+    'task_id': { type: 'INTEGER', repeated: false, nullable: true },
+    'transcript': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'dependency_list': {
+    'require': { type: 'TEXT', repeated: true, nullable: false },
+    'load_data': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'drop_table_sources': {
+    'table_name': { type: 'TEXT', repeated: false, nullable: true },
+    'quantity': { type: 'INTEGER', repeated: false, nullable: true },
+    'rolls': { type: 'INTEGER', repeated: false, nullable: true },
+    'rarity': { type: 'TEXT', repeated: false, nullable: true },
+    'approx': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'drop_level': { type: 'TEXT', repeated: false, nullable: true },
+    'drop_type': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'dropsline': {
+    'item_name': { type: 'TEXT', repeated: false, nullable: true },
+    'drop_json': { type: 'TEXT', repeated: false, nullable: true },
+    'rare_drop_table': { type: 'BOOLEAN', repeated: false, nullable: true },
+  },
+  'exchange': {
+    'id': { type: 'INTEGER', repeated: false, nullable: true },
+    'name': { type: 'TEXT', repeated: false, nullable: true },
+    'value': { type: 'INTEGER', repeated: false, nullable: true },
+    'is_alchable': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'high_alch': { type: 'INTEGER', repeated: false, nullable: true },
+    'low_alch': { type: 'INTEGER', repeated: false, nullable: true },
+    'limit': { type: 'INTEGER', repeated: false, nullable: true },
+    'module': { type: 'TEXT', repeated: false, nullable: true },
+    'is_historical': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'feedback': {
+    'id': { type: 'TEXT', repeated: false, nullable: true },
+    'comment': { type: 'TEXT', repeated: false, nullable: true },
+    'resolved': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'category': { type: 'TEXT', repeated: true, nullable: false },
+    'timestamp': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'infobox_activity': {
+    'image': { type: 'TEXT', repeated: true, nullable: false },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'default_version': { type: 'BOOLEAN', repeated: false, nullable: true },
+  },
+  'infobox_bonuses': {
+    'stab_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'slash_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'crush_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'range_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'magic_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'stab_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'slash_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'crush_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'range_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'magic_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'strength_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'ranged_strength_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'prayer_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'magic_damage_bonus': { type: 'DOUBLE', repeated: false, nullable: true },
+    'equipment_slot': { type: 'TEXT', repeated: false, nullable: true },
+    'weapon_attack_speed': { type: 'INTEGER', repeated: false, nullable: true },
+    'weapon_attack_range': { type: 'TEXT', repeated: false, nullable: true },
+    'combat_style': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'infobox_construction': {
+    'default_version': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'image': { type: 'TEXT', repeated: true, nullable: false },
+    'icon': { type: 'TEXT', repeated: true, nullable: false },
+    'item_id': { type: 'INTEGER', repeated: true, nullable: false },
+    'object_id': { type: 'INTEGER', repeated: true, nullable: false },
+    'level': { type: 'INTEGER', repeated: false, nullable: true },
+    'experience': { type: 'DOUBLE', repeated: false, nullable: true },
+    'uses_skill': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'infobox_grid_master_unlock': {
+    'image': { type: 'TEXT', repeated: false, nullable: true },
+    'difficulty': { type: 'TEXT', repeated: false, nullable: true },
+    'row': { type: 'TEXT', repeated: false, nullable: true },
+    'column': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'infobox_item': {
+    'item_name': { type: 'TEXT', repeated: false, nullable: true },
+    'image': { type: 'TEXT', repeated: true, nullable: false },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'item_id': { type: 'TEXT', repeated: true, nullable: false },
+    'examine': { type: 'TEXT', repeated: false, nullable: true },
+    'high_alchemy_value': { type: 'INTEGER', repeated: false, nullable: true },
+    'league_region': { type: 'TEXT', repeated: false, nullable: true },
+    'release_date': { type: 'TEXT', repeated: false, nullable: true },
+    'removal_date': { type: 'TEXT', repeated: false, nullable: true },
+    'value': { type: 'INTEGER', repeated: false, nullable: true },
+    'weight': { type: 'DOUBLE', repeated: false, nullable: true },
+    'version_anchor': { type: 'TEXT', repeated: false, nullable: true },
+    'buy_limit': { type: 'INTEGER', repeated: false, nullable: true },
+    'default_version': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'quest': { type: 'TEXT', repeated: false, nullable: true },
+    'tradeable': { type: 'BOOLEAN', repeated: false, nullable: true },
+  },
+  'infobox_location': {
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+  },
+  'infobox_monster': {
+    'default_version': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'name': { type: 'TEXT', repeated: false, nullable: true },
+    'image': { type: 'TEXT', repeated: true, nullable: false },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'id': { type: 'TEXT', repeated: true, nullable: false },
+    'examine': { type: 'TEXT', repeated: false, nullable: true },
+    'league_region': { type: 'TEXT', repeated: false, nullable: true },
+    'release_date': { type: 'TEXT', repeated: false, nullable: true },
+    'version_anchor': { type: 'TEXT', repeated: false, nullable: true },
+    'combat_level': { type: 'INTEGER', repeated: false, nullable: true },
+    'poisonous': { type: 'TEXT', repeated: false, nullable: true },
+    'attribute': { type: 'TEXT', repeated: true, nullable: false },
+    'hitpoints': { type: 'INTEGER', repeated: false, nullable: true },
+    'max_hit': { type: 'TEXT', repeated: true, nullable: false },
+    'slayer_level': { type: 'INTEGER', repeated: false, nullable: true },
+    'slayer_experience': { type: 'DOUBLE', repeated: false, nullable: true },
+    'slayer_category': { type: 'TEXT', repeated: true, nullable: false },
+    'uses_skill': { type: 'TEXT', repeated: true, nullable: false },
+    'assigned_by': { type: 'TEXT', repeated: true, nullable: false },
+    'attack_level': { type: 'INTEGER', repeated: false, nullable: true },
+    'strength_level': { type: 'INTEGER', repeated: false, nullable: true },
+    'defence_level': { type: 'INTEGER', repeated: false, nullable: true },
+    'ranged_level': { type: 'INTEGER', repeated: false, nullable: true },
+    'magic_level': { type: 'INTEGER', repeated: false, nullable: true },
+    'magic_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'range_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'stab_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'slash_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'crush_attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'stab_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'slash_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'crush_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'magic_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'range_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'light_range_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'standard_range_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'heavy_range_defence_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'attack_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'strength_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'range_strength_bonus': { type: 'INTEGER', repeated: false, nullable: true },
+    'magic_damage_bonus': { type: 'DOUBLE', repeated: false, nullable: true },
+    'poison_immune': { type: 'TEXT', repeated: false, nullable: true },
+    'venom_immune': { type: 'TEXT', repeated: false, nullable: true },
+    'thrall_immune': { type: 'TEXT', repeated: false, nullable: true },
+    'cannon_immune': { type: 'TEXT', repeated: false, nullable: true },
+    'burn_immune': { type: 'TEXT', repeated: false, nullable: true },
+    'attack_style': { type: 'TEXT', repeated: true, nullable: false },
+    'attack_speed': { type: 'INTEGER', repeated: false, nullable: true },
+    'experience_bonus': { type: 'DOUBLE', repeated: false, nullable: true },
+    'flat_armour': { type: 'INTEGER', repeated: false, nullable: true },
+    'size': { type: 'INTEGER', repeated: false, nullable: true },
+    'freeze_resistance': { type: 'TEXT', repeated: false, nullable: true },
+    'elemental_weakness': { type: 'TEXT', repeated: false, nullable: true },
+    'elemental_weakness_percent': { type: 'INTEGER', repeated: false, nullable: true },
+  },
+  'infobox_npc': {
+    'default_version': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'image': { type: 'TEXT', repeated: true, nullable: false },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'league_region': { type: 'TEXT', repeated: false, nullable: true },
+    'npc_id': { type: 'TEXT', repeated: true, nullable: false },
+    'npc_name': { type: 'TEXT', repeated: false, nullable: true },
+    'release': { type: 'TEXT', repeated: false, nullable: true },
+    'examine': { type: 'TEXT', repeated: false, nullable: true },
+    'location': { type: 'TEXT', repeated: false, nullable: true },
+    'quest': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'infobox_pure': {
+    'name': { type: 'TEXT', repeated: false, nullable: true },
+    'image': { type: 'TEXT', repeated: false, nullable: true },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'type': { type: 'TEXT', repeated: true, nullable: false },
+    'max_hit': { type: 'TEXT', repeated: true, nullable: false },
+    'combat_level': { type: 'TEXT', repeated: true, nullable: false },
+    'hitpoints': { type: 'TEXT', repeated: false, nullable: true },
+    'attack_level': { type: 'TEXT', repeated: false, nullable: true },
+    'strength_level': { type: 'TEXT', repeated: false, nullable: true },
+    'defence_level': { type: 'TEXT', repeated: false, nullable: true },
+    'ranged_level': { type: 'TEXT', repeated: false, nullable: true },
+    'magic_level': { type: 'TEXT', repeated: false, nullable: true },
+    'prayer_level': { type: 'TEXT', repeated: false, nullable: true },
+    'attack_style': { type: 'TEXT', repeated: false, nullable: true },
+    'all_attack_style': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'infobox_scenery': {
+    'default_version': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'image': { type: 'TEXT', repeated: true, nullable: false },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'league_region': { type: 'TEXT', repeated: false, nullable: true },
+    'release': { type: 'TEXT', repeated: false, nullable: true },
+    'object_id': { type: 'INTEGER', repeated: true, nullable: false },
+    'npc_id': { type: 'INTEGER', repeated: true, nullable: false },
+  },
+  'infobox_ship_part': {
+    'image': { type: 'TEXT', repeated: true, nullable: false },
+    'icon': { type: 'TEXT', repeated: true, nullable: false },
+    'item_id': { type: 'INTEGER', repeated: true, nullable: false },
+    'object_id': { type: 'INTEGER', repeated: true, nullable: false },
+  },
+  'infobox_spell': {
+    'image': { type: 'TEXT', repeated: false, nullable: true },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'spellbook': { type: 'TEXT', repeated: false, nullable: true },
+    'uses_material': { type: 'TEXT', repeated: true, nullable: false },
+    'json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'interface': {
+    'name': { type: 'TEXT', repeated: false, nullable: true },
+    'id': { type: 'INTEGER', repeated: false, nullable: true },
+  },
+  'item_id': {
+    'id': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'locline': {
+    'members': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'mapid': { type: 'INTEGER', repeated: false, nullable: true },
+    'plane': { type: 'INTEGER', repeated: false, nullable: true },
+    'coordinates': { type: 'TEXT', repeated: true, nullable: false },
+    'leagueregion': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'logs': {
+    'module': { type: 'TEXT', repeated: false, nullable: true },
+    'message': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'map': {
+    'features': { type: 'TEXT', repeated: false, nullable: true },
+    'options': { type: 'TEXT', repeated: false, nullable: true },
+    'is_historic': { type: 'BOOLEAN', repeated: false, nullable: true },
+  },
+  'mine': {
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'money_making_guide': {
+    'value': { type: 'TEXT', repeated: false, nullable: true },
+    'recurring': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'music': {
+    'title': { type: 'TEXT', repeated: false, nullable: true },
+    'sort_name': { type: 'TEXT', repeated: false, nullable: true },
+    'number': { type: 'INTEGER', repeated: false, nullable: true },
+    'duration': { type: 'TEXT', repeated: false, nullable: true },
+    'composer': { type: 'TEXT', repeated: true, nullable: false },
+    'unlock_hint': { type: 'TEXT', repeated: false, nullable: true },
+    'track': { type: 'TEXT', repeated: false, nullable: true },
+    'release_date': { type: 'TEXT', repeated: false, nullable: true },
+    'release_update': { type: 'TEXT', repeated: false, nullable: true },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'is_jingle': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'is_event': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'unlock_detail': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'music_map': {
+    'location_json': { type: 'TEXT', repeated: false, nullable: true },
+    'music_tracks': { type: 'TEXT', repeated: false, nullable: true },
+    'is_historic': { type: 'BOOLEAN', repeated: false, nullable: true },
+  },
+  'npc_id': {
+    'id': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'object_id': {
+    'id': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'quest': {
+    'description': { type: 'TEXT', repeated: false, nullable: true },
+    'enemies_to_defeat': { type: 'TEXT', repeated: false, nullable: true },
+    'ironman_concerns': { type: 'TEXT', repeated: false, nullable: true },
+    'items_required': { type: 'TEXT', repeated: false, nullable: true },
+    'official_difficulty': { type: 'TEXT', repeated: false, nullable: true },
+    'official_length': { type: 'TEXT', repeated: false, nullable: true },
+    'requirements': { type: 'TEXT', repeated: false, nullable: true },
+    'start_point': { type: 'TEXT', repeated: false, nullable: true },
+    'json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'recipe': {
+    'uses_material': { type: 'TEXT', repeated: true, nullable: false },
+    'uses_tool': { type: 'TEXT', repeated: true, nullable: false },
+    'uses_facility': { type: 'TEXT', repeated: true, nullable: false },
+    'is_members_only': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'is_boostable': { type: 'TEXT', repeated: true, nullable: false },
+    'uses_skill': { type: 'TEXT', repeated: true, nullable: false },
+    'source_template': { type: 'TEXT', repeated: false, nullable: true },
+    'production_json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'recommended_equipment': {
+    'json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'seachart': {
+    'description': { type: 'TEXT', repeated: false, nullable: true },
+    'id': { type: 'INTEGER', repeated: false, nullable: true },
+    'level': { type: 'INTEGER', repeated: false, nullable: true },
+    'type': { type: 'TEXT', repeated: false, nullable: true },
+    'sea': { type: 'TEXT', repeated: false, nullable: true },
+    'ocean': { type: 'TEXT', repeated: false, nullable: true },
+    'location': { type: 'TEXT', repeated: false, nullable: true },
+    'location2': { type: 'TEXT', repeated: false, nullable: true },
+    'hazard': { type: 'TEXT', repeated: false, nullable: true },
+    'xp': { type: 'DOUBLE', repeated: false, nullable: true },
+  },
+  'sound_effect': {
+    'name': { type: 'TEXT', repeated: false, nullable: true },
+    'id': { type: 'INTEGER', repeated: false, nullable: true },
+  },
+  'storeline': {
+    'sold_by': { type: 'TEXT', repeated: false, nullable: true },
+    'sold_item': { type: 'TEXT', repeated: false, nullable: true },
+    'sold_item_image': { type: 'TEXT', repeated: false, nullable: true },
+    'store_buy_price': { type: 'TEXT', repeated: false, nullable: true },
+    'store_sell_price': { type: 'TEXT', repeated: false, nullable: true },
+    'store_currency': { type: 'TEXT', repeated: false, nullable: true },
+    'store_delta': { type: 'TEXT', repeated: false, nullable: true },
+    'store_stock': { type: 'TEXT', repeated: false, nullable: true },
+    'store_buy_multiplier': { type: 'TEXT', repeated: false, nullable: true },
+    'store_sell_multiplier': { type: 'TEXT', repeated: false, nullable: true },
+    'restock_time': { type: 'TEXT', repeated: false, nullable: true },
+    'store_notes': { type: 'TEXT', repeated: false, nullable: true },
+    'sold_item_json': { type: 'TEXT', repeated: false, nullable: true },
+  },
+  'testing_bucket': {
+    'PAGE_NR': { type: 'PAGE', repeated: false, nullable: true },
+    'PAGE_R': { type: 'PAGE', repeated: true, nullable: false },
+    'TEXT_NR': { type: 'TEXT', repeated: false, nullable: true },
+    'TEXT_R': { type: 'TEXT', repeated: true, nullable: false },
+    'INTEGER_NR': { type: 'INTEGER', repeated: false, nullable: true },
+    'INTEGER_R': { type: 'INTEGER', repeated: true, nullable: false },
+    'DOUBLE_NR': { type: 'DOUBLE', repeated: false, nullable: true },
+    'DOUBLE_R': { type: 'DOUBLE', repeated: true, nullable: false },
+    'BOOLEAN_NR': { type: 'BOOLEAN', repeated: false, nullable: true },
+    'BOOLEAN_R': { type: 'BOOLEAN', repeated: true, nullable: false },
+  },
+  'transcript': {
+    'npcs': { type: 'TEXT', repeated: true, nullable: false },
+  },
+  'update': {
+    'date': { type: 'INTEGER', repeated: false, nullable: true },
+    'type': { type: 'TEXT', repeated: false, nullable: true },
+    'year': { type: 'INTEGER', repeated: false, nullable: true },
+    'month': { type: 'INTEGER', repeated: false, nullable: true },
+    'day': { type: 'INTEGER', repeated: false, nullable: true },
+  },
+  'varbit': {
+    'content': { type: 'TEXT', repeated: false, nullable: true },
+    'name': { type: 'TEXT', repeated: false, nullable: true },
+    'index': { type: 'INTEGER', repeated: false, nullable: true },
+  },
+};
+
 /** Registry mapping bucket names to their types. */
 export interface BucketRegistry {
   'bountytaskline': Bountytaskline;
@@ -0,0 +1,136 @@
+/**
+ * Mapping between game IDs and wiki page names.
+ *
+ * The `item_id`, `npc_id` and `object_id` buckets list the IDs on each page
+ * as text, one ID per entry of the repeated `id` field, while `exchange.id`
+ * is a number. {@link normalizeId} reads either into a number, and
+ * {@link resolvePageNames} / {@link resolveIds} look up many IDs or pages
+ * with {@link fetchByKeys}, in as few `whereIn` queries as the URL length allows.
+ *
+ * @module identity
+ */
+
+import { fetchByKeys } from './batch.js';
+import type { BatchOptions } from './batch.js';
+import { BucketClient } from './client.js';
+import { bucket } from './query-builder.js';
+
+/**
+ * The kind of game entity an ID belongs to. Each has its own ID space.
+ */
+export type GameEntity = 'item' | 'npc' | 'object';
+
+/**
+ * Options for {@link resolvePageNames} and {@link resolveIds}: the executor,
+ * URL length limit and concurrency of the batched lookups.
+ */
+export type IdentityOptions = BatchOptions;
+
+const ID_BUCKETS = { item: 'item_id', npc: 'npc_id', object: 'object_id' } as const;
+
+/**
+ * Reads a game ID from a number or wiki text (`'4151'`, `' 4151 '`).
+ * Returns `undefined` for anything that is not a non-negative integer.
+ *
+ * @example
+ * ```typescript
+ * normalizeId('4151'); // 4151
+ * normalizeId(4151); // 4151
+ * normalizeId('N/A'); // undefined
+ * ```
+ */
+export function normalizeId(id: string | number): number | undefined {
+    const value = typeof id === 'number' ? id : /^\s*\d+\s*$/.test(id) ? Number(id) : NaN;
+    return Number.isSafeInteger(value) && value >= 0 ? value : undefined;
+}
+
+/** The IDs listed in an `id` field, one per entry. Entries that are not IDs are skipped. */
+function idsOf(row: { id: string[] }): number[] {
+    return row.id.flatMap((entry) => normalizeId(entry) ?? []);
+}
+
+/**
+ * Looks up the wiki page of each game ID.
+ *
+ * IDs may be numbers or strings; invalid ones are skipped. IDs without a
+ * page are missing from the result. When several pages list an ID, the
+ * first returned wins. Item IDs missing from `item_id` are looked up in
+ * `exchange` by its numeric `id`, which gives the item name.
+ *
+ * @param entity - Whether the IDs are item, NPC or object IDs.
+ * @param ids - The IDs to look up.
+ * @param options - The executor, URL length limit and concurrency.
+ * @throws {BucketApiError} If the wiki rejects a query.
+ * @throws {BucketHttpError} If a request fails.
+ *
+ * @example
+ * ```typescript
+ * const names = await resolvePageNames('item', [4151, '11802']);
+ * names.get(4151); // 'Abyssal whip'
+ * ```
+ */
+export async function resolvePageNames(
+    entity: GameEntity,
+    ids: readonly (string | number)[],
+    options: IdentityOptions = {},
+): Promise<Map<number, string>> {
+    const wanted = [...new Set(ids.flatMap((id) => normalizeId(id) ?? []))];
+    const found = new Map<number, string>();
+    if (wanted.length === 0) return found;
+    const batch = { ...options, executor: options.executor ?? new BucketClient() };
+
+    const listed = await fetchByKeys(bucket(ID_BUCKETS[entity]).select('id'), 'id', wanted.map(String), batch);
+    for (const id of wanted) {
+        const row = listed.get(String(id))?.[0];
+        if (row !== undefined) found.set(id, row.page_name);
+    }
+
+    const missing = wanted.filter((id) => !found.has(id));
+    if (entity === 'item' && missing.length > 0) {
+        const exchange = await fetchByKeys(bucket('exchange').select('id', 'name'), 'id', missing, batch);
+        for (const id of missing) {
+            const name = exchange.get(id)?.find((row) => row.name !== null)?.name ?? undefined;
+            if (name !== undefined) found.set(id, name);
+        }
+    }
+
+    const result = new Map<number, string>();
+    for (const id of wanted) {
+        const page = found.get(id);
+        if (page !== undefined) result.set(id, page);
+    }
+    return result;
+}
+
+/**
+ * Looks up the game IDs listed on each wiki page. Pages without IDs are
+ * missing from the result.
+ *
+ * @param entity - Whether to read item, NPC or object IDs.
+ * @param pages - The page names to look up.
+ * @param options - The executor, URL length limit and concurrency.
+ * @throws {BucketApiError} If the wiki rejects a query.
+ * @throws {BucketHttpError} If a request fails.
+ *
+ * @example
+ * ```typescript
+ * const ids = await resolveIds('npc', ['Goblin']);
+ * ids.get('Goblin'); // [655, 656, 657, ...]
+ * ```
+ */
+export async function resolveIds(
+    entity: GameEntity,
+    pages: readonly string[],
+    options: IdentityOptions = {},
+): Promise<Map<string, number[]>> {
+    const wanted = [...new Set(pages)];
+    const result = new Map<string, number[]>();
+    if (wanted.length === 0) return result;
+
+    const listed = await fetchByKeys(bucket(ID_BUCKETS[entity]).select('id'), 'page_name', wanted, options);
+    for (const page of wanted) {
+        const ids = new Set((listed.get(page) ?? []).flatMap(idsOf));
+        if (ids.size > 0) result.set(page, [...ids]);
+    }
+    return result;
+}
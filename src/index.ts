@@ -1,3 +1,19 @@
 export * from './query-builder.js';
+export * from './batch.js';
 export * from './types.js';
 export * from './response-types.js';
+export * from './client.js';
+export * from './cache.js';
+export * from './request-policy.js';
+export * from './validation.js';
+export * from './decoders.js';
+export * from './drops.js';
+export * from './recipes.js';
+export * from './monsters.js';
+export * from './shops.js';
+export * from './identity.js';
+export * from './errors.js';
+export * from './diagnostics.js';
+export * from './parser.js';
+export * from './query-ast.js';
+export * from './query-lint.js';
@@ -0,0 +1,329 @@
+/**
+ * Combat stats from the `infobox_monster` bucket.
+ *
+ * Levels and bonuses are plain numbers, but max hits and immunities are
+ * stored as wiki text (`'25 (Melee), 30 (Magic)'`, `'Not immune'`), and a
+ * page has one row per version of the monster. {@link fetchMonsterStats}
+ * picks one version and {@link toMonsterStats} turns it into a
+ * {@link MonsterStats} a DPS calculator can use directly.
+ *
+ * @module monsters
+ */
+
+import { BucketClient } from './client.js';
+import type { BucketExecutor } from './client.js';
+import { bucket } from './query-builder.js';
+
+/**
+ * One max hit, with the attack style or note it applies to.
+ */
+export interface MaxHit {
+    damage: number;
+    /** The bracketed text after the number, e.g. `'Melee'`, or `undefined` when there is none. */
+    style: string | undefined;
+}
+
+/**
+ * Which effects a monster is immune to. `undefined` when the wiki text is
+ * missing or not recognised.
+ */
+export interface MonsterImmunities {
+    poison: boolean | undefined;
+    venom: boolean | undefined;
+    cannon: boolean | undefined;
+    thrall: boolean | undefined;
+    burn: boolean | undefined;
+    /** The chance of resisting freezes, as a percentage. */
+    freezeResistance: number | undefined;
+}
+
+/**
+ * A monster's combat stats, parsed from one `infobox_monster` row.
+ * Missing levels and bonuses are 0.
+ */
+export interface MonsterStats {
+    /** The page the monster is on. */
+    page: string;
+    name: string;
+    /** The version's anchor, e.g. `'Level 2'`, or `undefined` for single-version pages. */
+    version: string | undefined;
+    /** The NPC ids of this version. */
+    ids: number[];
+    combatLevel: number | undefined;
+    size: number | undefined;
+    /** Ticks between attacks. */
+    attackSpeed: number | undefined;
+    attackStyles: string[];
+    /** Every max hit listed, in wiki order. */
+    maxHits: MaxHit[];
+    /** The highest of `maxHits`, or `undefined` when none is numeric. */
+    maxHit: number | undefined;
+    attributes: string[];
+    levels: {
+        hitpoints: number;
+        attack: number;
+        strength: number;
+        defence: number;
+        ranged: number;
+        magic: number;
+    };
+    offence: {
+        /** Melee accuracy (`attack_bonus`). */
+        attack: number;
+        strength: number;
+        magic: number;
+        /** Magic damage bonus, as a percentage. */
+        magicDamage: number;
+        ranged: number;
+        rangedStrength: number;
+    };
+    defence: {
+        stab: number;
+        slash: number;
+        crush: number;
+        magic: number;
+        ranged: number;
+        lightRanged: number;
+        standardRanged: number;
+        heavyRanged: number;
+        /** Damage subtracted from every hit. */
+        flatArmour: number;
+    };
+    immunities: MonsterImmunities;
+    /** The element the monster is weak to and the bonus damage it takes, as a percentage. */
+    elementalWeakness: { element: string; percent: number } | undefined;
+}
+
+/**
+ * Options for {@link fetchMonsterStats}.
+ */
+export interface MonsterStatsOptions {
+    /** The executor to send the query through. Defaults to a new {@link BucketClient}. */
+    executor?: BucketExecutor;
+    /**
+     * The `version_anchor` to pick, e.g. `'Level 5'`. Defaults to the
+     * page's default version, or the first row when none is marked.
+     */
+    version?: string;
+}
+
+/** The `infobox_monster` fields {@link toMonsterStats} reads. */
+interface MonsterRow {
+    page_name: string;
+    name: string | null;
+    version_anchor: string | null;
+    id: string[];
+    combat_level: number | null;
+    size: number | null;
+    attack_speed: number | null;
+    attack_style: string[];
+    max_hit: string[];
+    attribute: string[];
+    hitpoints: number | null;
+    attack_level: number | null;
+    strength_level: number | null;
+    defence_level: number | null;
+    ranged_level: number | null;
+    magic_level: number | null;
+    attack_bonus: number | null;
+    strength_bonus: number | null;
+    magic_attack_bonus: number | null;
+    magic_damage_bonus: number | null;
+    range_attack_bonus: number | null;
+    range_strength_bonus: number | null;
+    stab_defence_bonus: number | null;
+    slash_defence_bonus: number | null;
+    crush_defence_bonus: number | null;
+    magic_defence_bonus: number | null;
+    range_defence_bonus: number | null;
+    light_range_defence_bonus: number | null;
+    standard_range_defence_bonus: number | null;
+    heavy_range_defence_bonus: number | null;
+    flat_armour: number | null;
+    poison_immune: string | null;
+    venom_immune: string | null;
+    cannon_immune: string | null;
+    thrall_immune: string | null;
+    burn_immune: string | null;
+    freeze_resistance: string | null;
+    elemental_weakness: string | null;
+    elemental_weakness_percent: number | null;
+}
+
+/**
+ * Parses a wiki max hit into one entry per number.
+ *
+ * Understands plain numbers (`'25'`, `'1,000'`), bracketed styles or notes
+ * (`'46 (Magic)'`) and several hits in one string (`'22 (Melee), 30 (Ranged)'`).
+ * Numbers inside further brackets, as in `'46 (Magic) (post-quest 50)'`,
+ * are notes and ignored. Text without a number, such as `'Varies'`, gives
+ * an empty array.
+ *
+ * @example
+ * ```typescript
+ * parseMaxHit('22 (Melee), 30 (Ranged)'); // [{ damage: 22, style: 'Melee' }, { damage: 30, style: 'Ranged' }]
+ * ```
+ */
+export function parseMaxHit(text: string): MaxHit[] {
+    const hits: MaxHit[] = [];
+    // Brackets not directly after a number are notes (`'(post-quest 50)'`); their numbers are not hits.
+    for (const match of text.matchAll(/(\d+(?:,\d{3})*)\s*(?:\(([^)]*)\))?|\([^)]*\)/g)) {
+        if (match[1] === undefined) continue;
+        hits.push({ damage: Number(match[1].replace(/,/g, '')), style: match[2]?.trim() || undefined });
+    }
+    return hits;
+}
+
+/**
+ * Parses a wiki immunity value such as `'Immune'`, `'Not immune'`, `'Yes'`
+ * or `'No'`. Returns `undefined` for other text.
+ *
+ * @example
+ * ```typescript
+ * parseImmunity('Not immune'); // false
+ * ```
+ */
+export function parseImmunity(text: string | null): boolean | undefined {
+    const normalised = text?.trim().toLowerCase();
+    if (normalised === undefined) return undefined;
+    if (/^(?:no|not immune|false)\b/.test(normalised)) return false;
+    if (/^(?:yes|immune|true)\b/.test(normalised)) return true;
+    return undefined;
+}
+
+/**
+ * Parses an `infobox_monster` row into {@link MonsterStats}.
+ */
+export function toMonsterStats(row: MonsterRow): MonsterStats {
+    const maxHits = row.max_hit.flatMap(parseMaxHit);
+    const freeze = Number.parseFloat(row.freeze_resistance ?? '');
+
+    return {
+        page: row.page_name,
+        name: row.name ?? row.page_name,
+        version: row.version_anchor ?? undefined,
+        ids: row.id.flatMap((id) => id.split(',')).flatMap((id) => (/^\s*\d+\s*$/.test(id) ? [Number(id)] : [])),
+        combatLevel: row.combat_level ?? undefined,
+        size: row.size ?? undefined,
+        attackSpeed: row.attack_speed ?? undefined,
+        attackStyles: row.attack_style,
+        maxHits,
+        maxHit: maxHits.length === 0 ? undefined : maxHits.map((hit) => hit.damage).reduce((a, b) => Math.max(a, b)),
+        attributes: row.attribute,
+        levels: {
+            hitpoints: row.hitpoints ?? 0,
+            attack: row.attack_level ?? 0,
+            strength: row.strength_level ?? 0,
+            defence: row.defence_level ?? 0,
+            ranged: row.ranged_level ?? 0,
+            magic: row.magic_level ?? 0,
+        },
+        offence: {
+            attack: row.attack_bonus ?? 0,
+            strength: row.strength_bonus ?? 0,
+            magic: row.magic_attack_bonus ?? 0,
+            magicDamage: row.magic_damage_bonus ?? 0,
+            ranged: row.range_attack_bonus ?? 0,
+            rangedStrength: row.range_strength_bonus ?? 0,
+        },
+        defence: {
+            stab: row.stab_defence_bonus ?? 0,
+            slash: row.slash_defence_bonus ?? 0,
+            crush: row.crush_defence_bonus ?? 0,
+            magic: row.magic_defence_bonus ?? 0,
+            ranged: row.range_defence_bonus ?? 0,
+            lightRanged: row.light_range_defence_bonus ?? 0,
+            standardRanged: row.standard_range_defence_bonus ?? 0,
+            heavyRanged: row.heavy_range_defence_bonus ?? 0,
+            flatArmour: row.flat_armour ?? 0,
+        },
+        immunities: {
+            poison: parseImmunity(row.poison_immune),
+            venom: parseImmunity(row.venom_immune),
+            cannon: parseImmunity(row.cannon_immune),
+            thrall: parseImmunity(row.thrall_immune),
+            burn: parseImmunity(row.burn_immune),
+            freezeResistance: Number.isFinite(freeze) ? freeze : undefined,
+        },
+        elementalWeakness:
+            row.elemental_weakness === null
+                ? undefined
+                : { element: row.elemental_weakness, percent: row.elemental_weakness_percent ?? 0 },
+    };
+}
+
+/**
+ * Fetches one version of a monster's stats, by name or NPC id.
+ *
+ * A name matches every version of the monster; the `version` option picks
+ * one by `version_anchor`, otherwise the row marked `default_version` is
+ * used. An id matches the version with that id. Returns `undefined` when no
+ * row matches.
+ *
+ * @param monster - The monster's name, e.g. `'Goblin'`, or an NPC id.
+ * @param options - The executor and version.
+ * @throws {BucketApiError} If the wiki rejects the query.
+ * @throws {BucketHttpError} If a request fails.
+ *
+ * @example
+ * ```typescript
+ * const stats = await fetchMonsterStats('Vorkath', { version: 'Post-quest' });
+ * stats?.defence.stab; // 26
+ * stats?.maxHits; // [{ damage: 32, style: 'Melee' }, { damage: 32, style: 'Ranged' }, ...]
+ * ```
+ */
+export async function fetchMonsterStats(
+    monster: string | number,
+    options: MonsterStatsOptions = {},
+): Promise<MonsterStats | undefined> {
+    const query = bucket('infobox_monster').select(
+        'name',
+        'default_version',
+        'version_anchor',
+        'id',
+        'combat_level',
+        'size',
+        'attack_speed',
+        'attack_style',
+        'max_hit',
+        'attribute',
+        'hitpoints',
+        'attack_level',
+        'strength_level',
+        'defence_level',
+        'ranged_level',
+        'magic_level',
+        'attack_bonus',
+        'strength_bonus',
+        'magic_attack_bonus',
+        'magic_damage_bonus',
+        'range_attack_bonus',
+        'range_strength_bonus',
+        'stab_defence_bonus',
+        'slash_defence_bonus',
+        'crush_defence_bonus',
+        'magic_defence_bonus',
+        'range_defence_bonus',
+        'light_range_defence_bonus',
+        'standard_range_defence_bonus',
+        'heavy_range_defence_bonus',
+        'flat_armour',
+        'poison_immune',
+        'venom_immune',
+        'cannon_immune',
+        'thrall_immune',
+        'burn_immune',
+        'freeze_resistance',
+        'elemental_weakness',
+        'elemental_weakness_percent',
+    );
+    const rows = await (
+        typeof monster === 'number' ? query.where('id', String(monster)) : query.where('name', monster)
+    ).fetchAll(options.executor ?? new BucketClient());
+
+    const row =
+        options.version === undefined
+            ? (rows.find((r) => r.default_version === true) ?? rows[0])
+            : rows.find((r) => r.version_anchor === options.version);
+    return row && toMonsterStats(row);
+}
@@ -0,0 +1,385 @@
+/**
+ * Reverse parser: turns Lua bucket query strings back into query builders.
+ *
+ * Accepts everything {@link BucketQueryBuilder.printSQL} emits, which is also
+ * the format echoed in `BucketResponse.query` and the one wiki editors write
+ * by hand: `bucket(...)`, `.join`, `.select`, `.where` (including
+ * `bucket.And/Or/Not/Null`), `.orderBy`, `.limit`, `.offset` and a trailing
+ * `.run()`. Both quote styles, whitespace, newlines and `--` comments are
+ * allowed between tokens.
+ *
+ * For any builder `q`, `parseBucketQuery(q.printSQL()).printSQL() === q.printSQL()`.
+ *
+ * @module parser
+ */
+
+import type { DiagnosticsOptions } from './diagnostics.js';
+import { silentLogger } from './diagnostics.js';
+import { BucketQueryParseError } from './errors.js';
+import type { BucketName } from './generated/definitions.js';
+import { BucketQueryBuilder } from './query-builder.js';
+import type { ValidField } from './response-types.js';
+import type { BucketCondition, BucketHelperCondition, Operator, ScalarValue } from './types.js';
+import { Bucket } from './types.js';
+
+/**
+ * The builder returned by {@link parseBucketQuery}. The joins and selected
+ * fields are only known at runtime, so rows are typed as plain records.
+ *
+ * @template K The main bucket, when passed to {@link parseBucketQuery} as `expectedBucket`.
+ */
+export type ParsedBucketQuery<K extends BucketName = BucketName> = BucketQueryBuilder<
+    K,
+    Record<string, BucketName>,
+    Record<string, unknown>,
+    boolean
+>;
+
+type ParsedField = ValidField<BucketName, Record<string, BucketName>>;
+
+type Token =
+    | { kind: 'string'; value: string; start: number }
+    | { kind: 'number'; value: number; start: number }
+    | { kind: 'name'; value: string; start: number }
+    | { kind: 'punct'; value: '(' | ')' | '{' | '}' | ',' | '.'; start: number }
+    | { kind: 'end'; start: number };
+
+const OPERATORS: readonly string[] = ['=', '!=', '>', '<', '>=', '<='] satisfies Operator[];
+
+const PUNCTUATION = new Set(['(', ')', '{', '}', ',', '.']);
+
+const LUA_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+
+const NUMBER_PATTERN = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+const NAME_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y;
+
+/** Splits a Lua query string into tokens, skipping whitespace and `--` comments. */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source.charAt(i);
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (source.startsWith('--', i)) {
+            const newline = source.indexOf('\n', i);
+            i = newline === -1 ? source.length : newline + 1;
+        } else if (char === "'" || char === '"') {
+            const start = i;
+            let value = '';
+            i++;
+            while (source.charAt(i) !== char) {
+                if (i >= source.length) {
+                    throw new BucketQueryParseError('Unterminated string', source, start);
+                }
+                if (source.charAt(i) === '\\') {
+                    const escaped = source.charAt(i + 1);
+                    value += LUA_ESCAPES[escaped] ?? escaped;
+                    i += 2;
+                } else {
+                    value += source.charAt(i);
+                    i++;
+                }
+            }
+            tokens.push({ kind: 'string', value, start });
+            i++;
+        } else if (PUNCTUATION.has(char)) {
+            tokens.push({ kind: 'punct', value: char as '(' | ')' | '{' | '}' | ',' | '.', start: i });
+            i++;
+        } else {
+            NUMBER_PATTERN.lastIndex = i;
+            NAME_PATTERN.lastIndex = i;
+            const number = NUMBER_PATTERN.exec(source);
+            const name = number ? null : NAME_PATTERN.exec(source);
+            if (number) {
+                tokens.push({ kind: 'number', value: Number(number[0]), start: i });
+                i += number[0].length;
+            } else if (name) {
+                tokens.push({ kind: 'name', value: name[0], start: i });
+                i += name[0].length;
+            } else {
+                throw new BucketQueryParseError(`Unexpected character '${char}'`, source, i);
+            }
+        }
+    }
+
+    tokens.push({ kind: 'end', start: source.length });
+    return tokens;
+}
+
+/** Describes a token for error messages. */
+function describeToken(token: Token): string {
+    switch (token.kind) {
+        case 'end':
+            return 'end of input';
+        case 'string':
+            return `string '${token.value}'`;
+        case 'number':
+            return `number ${String(token.value)}`;
+        default:
+            return `'${token.value}'`;
+    }
+}
+
+/**
+ * Recursive-descent parser over the token stream. Each `parse*` method
+ * consumes exactly the tokens of the construct it names.
+ */
+class QueryParser {
+    private readonly tokens: Token[];
+    private index = 0;
+
+    constructor(private readonly source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    parse(expectedBucket?: string): ParsedBucketQuery {
+        this.expectName('bucket');
+        this.expectPunct('(');
+        const bucketToken = this.peek();
+        const bucketName = this.expectString();
+        if (expectedBucket !== undefined && bucketName !== expectedBucket) {
+            this.fail(`Expected bucket '${expectedBucket}' but found ${describeToken(bucketToken)}`, bucketToken);
+        }
+        this.expectPunct(')');
+
+        // Parse quietly: questionable input is the source's, not a builder call to warn about.
+        const query = new BucketQueryBuilder(bucketName as BucketName, {
+            logger: silentLogger,
+            strict: false,
+        }) as ParsedBucketQuery;
+
+        while (this.peek().kind !== 'end') {
+            this.expectPunct('.');
+            const method = this.peek();
+            const name = this.expectName();
+            this.expectPunct('(');
+
+            switch (name) {
+                case 'join': {
+                    const target = this.expectString();
+                    this.expectPunct(',');
+                    const source = this.expectString();
+                    this.expectPunct(',');
+                    const targetField = this.expectString();
+                    query.join(target as BucketName, source, targetField);
+                    break;
+                }
+                case 'select':
+                    query.select(...(this.parseList(() => this.expectString()) as ParsedField[]));
+                    break;
+                case 'where':
+                    query.where(...this.parseList(() => this.parseCondition()));
+                    break;
+                case 'orderBy': {
+                    const field = this.expectString();
+                    this.expectPunct(',');
+                    const directionToken = this.peek();
+                    const direction = this.expectString();
+                    if (direction !== 'asc' && direction !== 'desc') {
+                        this.fail(
+                            `Expected 'asc' or 'desc' but found ${describeToken(directionToken)}`,
+                            directionToken,
+                        );
+                    }
+                    query.orderBy(field, direction);
+                    break;
+                }
+                case 'limit':
+                    query.limit(this.expectNumber());
+                    break;
+                case 'offset':
+                    query.offset(this.expectNumber());
+                    break;
+                case 'run':
+                    break;
+                default:
+                    this.fail(`Unknown query method '${name}'`, method);
+            }
+
+            this.expectPunct(')');
+
+            if (name === 'run' && this.peek().kind !== 'end') {
+                this.fail(`Expected end of input after .run() but found ${describeToken(this.peek())}`, this.peek());
+            }
+        }
+
+        return query;
+    }
+
+    /** Parses a possibly empty comma-separated list up to (not including) the closing `)`. */
+    private parseList<T>(parseItem: () => T): T[] {
+        const items: T[] = [];
+        if (this.isPunct(')')) return items;
+        items.push(parseItem());
+        while (this.isPunct(',')) {
+            this.index++;
+            items.push(parseItem());
+        }
+        return items;
+    }
+
+    /** Parses `{ 'field', value }`, `{ 'field', 'op', value }` or a `bucket.*` helper. */
+    private parseCondition(): BucketCondition {
+        if (!this.isPunct('{')) {
+            return this.parseHelper();
+        }
+        this.index++;
+
+        const field = this.expectString();
+        this.expectPunct(',');
+        const operatorToken = this.peek();
+        const first = this.parseValue();
+
+        let condition: BucketCondition;
+        if (this.isPunct(',')) {
+            this.index++;
+            if (typeof first !== 'string' || !OPERATORS.includes(first)) {
+                this.fail(`Expected an operator but found ${describeToken(operatorToken)}`, operatorToken);
+            }
+            condition = [field, first as Operator, this.parseValue()] as BucketCondition;
+        } else {
+            condition = [field, first] as BucketCondition;
+        }
+
+        this.expectPunct('}');
+        return condition;
+    }
+
+    /** Parses a condition value: a string, number, boolean or `bucket.*` helper. */
+    private parseValue(): ScalarValue | BucketHelperCondition {
+        const token = this.peek();
+        if (token.kind === 'string' || token.kind === 'number') {
+            this.index++;
+            return token.value;
+        }
+        if (token.kind === 'name' && (token.value === 'true' || token.value === 'false')) {
+            this.index++;
+            return token.value === 'true';
+        }
+        if (token.kind === 'name' && token.value === 'bucket') {
+            return this.parseHelper();
+        }
+        return this.fail(`Expected a value but found ${describeToken(token)}`, token);
+    }
+
+    /** Parses `bucket.And(...)`, `bucket.Or(...)`, `bucket.Not(...)` or `bucket.Null()`. */
+    private parseHelper(): BucketHelperCondition {
+        const start = this.peek();
+        if (start.kind !== 'name' || start.value !== 'bucket') {
+            this.fail(`Expected a condition but found ${describeToken(start)}`, start);
+        }
+        this.index++;
+        this.expectPunct('.');
+        const helperToken = this.peek();
+        const helper = this.expectName();
+        this.expectPunct('(');
+
+        let condition: BucketHelperCondition;
+        switch (helper) {
+            case 'And':
+                condition = Bucket.And(...this.parseList(() => this.parseCondition()));
+                break;
+            case 'Or':
+                condition = Bucket.Or(...this.parseList(() => this.parseCondition()));
+                break;
+            case 'Not':
+                condition = Bucket.Not(this.parseCondition());
+                break;
+            case 'Null':
+                condition = Bucket.Null();
+                break;
+            default:
+                return this.fail(`Unknown helper 'bucket.${helper}'`, helperToken);
+        }
+
+        this.expectPunct(')');
+        return condition;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index] ?? { kind: 'end', start: this.source.length };
+    }
+
+    private isPunct(value: string): boolean {
+        const token = this.peek();
+        return token.kind === 'punct' && token.value === value;
+    }
+
+    private expectPunct(value: string): void {
+        if (!this.isPunct(value)) {
+            this.fail(`Expected '${value}' but found ${describeToken(this.peek())}`, this.peek());
+        }
+        this.index++;
+    }
+
+    private expectName(expected?: string): string {
+        const token = this.peek();
+        if (token.kind !== 'name' || (expected !== undefined && token.value !== expected)) {
+            return this.fail(`Expected ${expected ?? 'a method name'} but found ${describeToken(token)}`, token);
+        }
+        this.index++;
+        return token.value;
+    }
+
+    private expectString(): string {
+        const token = this.peek();
+        if (token.kind !== 'string') {
+            return this.fail(`Expected a string but found ${describeToken(token)}`, token);
+        }
+        this.index++;
+        return token.value;
+    }
+
+    private expectNumber(): number {
+        const token = this.peek();
+        if (token.kind !== 'number') {
+            return this.fail(`Expected a number but found ${describeToken(token)}`, token);
+        }
+        this.index++;
+        return token.value;
+    }
+
+    private fail(reason: string, token: Token): never {
+        throw new BucketQueryParseError(reason, this.source, token.start);
+    }
+}
+
+/**
+ * Parses a Lua bucket query string into an equivalent query builder.
+ *
+ * The result can be modified, printed and executed like any other builder.
+ * Queries produced by `printSQL()` round-trip exactly; hand-written queries
+ * are normalised (e.g. the `page_name` meta fields are added to `.select()`).
+ *
+ * Pass `expectedBucket` to type the builder for that bucket (so `.where()`
+ * and `.select()` autocomplete its fields); the parser then rejects queries
+ * on any other bucket.
+ *
+ * Parsing reports no warnings: a limit above 5000 is clamped and an
+ * `orderBy` on an unselected field is kept, silently. `options` apply to
+ * the returned builder, like those of `bucket(name, options)`.
+ *
+ * @param lua - The Lua query, e.g. from `BucketResponse.query`.
+ * @param expectedBucket - The main bucket the query must target.
+ * @param options - Diagnostics options for the returned builder.
+ * @throws {BucketQueryParseError} With the line and column of the first invalid token.
+ * @throws {UnknownBucketError} In strict mode, if the bucket is not in the schema.
+ *
+ * @example
+ * ```typescript
+ * const lua = "bucket('exchange').select('name', 'value').where({ 'value', '>', 1000 }).run()";
+ * const query = parseBucketQuery(lua, 'exchange');
+ * const rows = await query.orderBy('value', 'desc').limit(10).fetchAll();
+ * ```
+ */
+export function parseBucketQuery<K extends BucketName = BucketName>(
+    lua: string,
+    expectedBucket?: K,
+    options: DiagnosticsOptions = {},
+): ParsedBucketQuery<K> {
+    return new QueryParser(lua).parse(expectedBucket).clone(options) as ParsedBucketQuery<K>;
+}
@@ -0,0 +1,239 @@
+/**
+ * A versioned, JSON-serialisable representation of a bucket query.
+ *
+ * {@link BucketQueryBuilder.toJSON} produces a {@link BucketQueryAst} and
+ * {@link BucketQueryBuilder.fromJSON} rebuilds an equivalent builder from
+ * one, so queries can be stored, sent between services and diffed
+ * structurally. The AST records what was passed to the builder (aliases and
+ * wildcards are kept as written) rather than the generated Lua.
+ *
+ * Every field is always present, in a stable order, so two ASTs for the same
+ * query serialise identically.
+ *
+ * @module query-ast
+ */
+
+import { BucketQueryAstError } from './errors.js';
+import type { BucketCondition, BucketHelperCondition, Operator, OrderByDirection, ScalarValue } from './types.js';
+import { Bucket, QUERY_DEFAULTS } from './types.js';
+
+/**
+ * The AST format version written by {@link BucketQueryBuilder.toJSON}.
+ * Bumped whenever the shape changes incompatibly; `fromJSON` rejects other versions.
+ */
+export const BUCKET_QUERY_AST_VERSION = 1;
+
+/** A `.join()` call. `onSource` and `onTarget` are kept as written (alias-relative or qualified). */
+export interface BucketJoinAst {
+    target: string;
+    alias?: string;
+    onSource: string;
+    onTarget: string;
+}
+
+/** An `.orderBy()` call. */
+export interface BucketOrderAst {
+    field: string;
+    direction: OrderByDirection;
+}
+
+/**
+ * A single condition.
+ *
+ * - `compare`: `{ field, value }` or `{ field, operator, value }`. The
+ *   operator is omitted for implicit equality, matching `.where(field, value)`.
+ * - `and` / `or` / `not` / `null`: the `Bucket.And/Or/Not/Null` helpers.
+ */
+export type BucketConditionAst =
+    | { type: 'compare'; field: string; operator?: Operator; value: ScalarValue | BucketConditionAst }
+    | { type: 'and'; conditions: BucketConditionAst[] }
+    | { type: 'or'; conditions: BucketConditionAst[] }
+    | { type: 'not'; condition: BucketConditionAst }
+    | { type: 'null' };
+
+/**
+ * The serialised state of a {@link BucketQueryBuilder}.
+ *
+ * @template K The main bucket name.
+ *
+ * @example
+ * ```typescript
+ * bucket('exchange').select('name').where('value', '>', 1000).toJSON();
+ * // {
+ * //   version: 1,
+ * //   bucket: 'exchange',
+ * //   joins: [],
+ * //   select: ['name'],
+ * //   where: [[{ type: 'compare', field: 'value', operator: '>', value: 1000 }]],
+ * //   orderBy: [],
+ * //   limit: 500,
+ * //   offset: 0,
+ * // }
+ * ```
+ */
+export interface BucketQueryAst<K extends string = string> {
+    version: typeof BUCKET_QUERY_AST_VERSION;
+    bucket: K;
+    joins: BucketJoinAst[];
+    /** Selectors as passed to `.select()`, including wildcards. */
+    select: string[];
+    /** One entry per `.where()` call; conditions within an entry are ANDed. */
+    where: BucketConditionAst[][];
+    orderBy: BucketOrderAst[];
+    limit: number;
+    offset: number;
+}
+
+const OPERATORS: readonly string[] = ['=', '!=', '>', '<', '>=', '<='] satisfies Operator[];
+
+function isHelper(value: unknown): value is BucketHelperCondition {
+    return typeof value === 'object' && value !== null && '_type' in value;
+}
+
+/** Converts a builder condition to its AST node. */
+export function conditionToAst(condition: BucketCondition): BucketConditionAst {
+    if (Array.isArray(condition)) {
+        const [field, ...rest] = condition;
+        const value = rest[rest.length - 1] as ScalarValue | BucketHelperCondition;
+        const node: BucketConditionAst = {
+            type: 'compare',
+            field,
+            value: isHelper(value) ? conditionToAst(value) : value,
+        };
+        return rest.length === 2 ? { ...node, operator: rest[0] } : node;
+    }
+    if ('_group' in condition) {
+        // A group nested inside a helper has no Lua form of its own; it means "all of these".
+        return { type: 'and', conditions: condition._group.map(conditionToAst) };
+    }
+    switch (condition._type) {
+        case 'AND':
+            return { type: 'and', conditions: condition.conditions.map(conditionToAst) };
+        case 'OR':
+            return { type: 'or', conditions: condition.conditions.map(conditionToAst) };
+        case 'NOT':
+            return { type: 'not', condition: conditionToAst(condition.condition) };
+        case 'NULL':
+            return { type: 'null' };
+    }
+}
+
+/** Converts an AST node back to a builder condition. */
+export function conditionFromAst(node: BucketConditionAst): BucketCondition {
+    switch (node.type) {
+        case 'compare': {
+            const value =
+                typeof node.value === 'object' ? (conditionFromAst(node.value) as BucketHelperCondition) : node.value;
+            return (
+                node.operator === undefined ? [node.field, value] : [node.field, node.operator, value]
+            ) as BucketCondition;
+        }
+        case 'and':
+            return Bucket.And(...node.conditions.map(conditionFromAst));
+        case 'or':
+            return Bucket.Or(...node.conditions.map(conditionFromAst));
+        case 'not':
+            return Bucket.Not(conditionFromAst(node.condition));
+        case 'null':
+            return Bucket.Null();
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fail(path: string, expected: string): never {
+    throw new BucketQueryAstError(`Invalid query AST at ${path}: expected ${expected}`, path);
+}
+
+function expectString(value: unknown, path: string): void {
+    if (typeof value !== 'string') fail(path, 'a string');
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) fail(path, 'an array');
+    return value;
+}
+
+function assertCondition(value: unknown, path: string): void {
+    if (!isRecord(value)) fail(path, 'a condition object');
+
+    switch (value['type']) {
+        case 'compare': {
+            expectString(value['field'], `${path}.field`);
+            if (value['operator'] !== undefined && !OPERATORS.includes(value['operator'] as string)) {
+                fail(`${path}.operator`, `one of ${OPERATORS.join(', ')}`);
+            }
+            const operand = value['value'];
+            if (isRecord(operand)) {
+                assertCondition(operand, `${path}.value`);
+            } else if (!['string', 'number', 'boolean'].includes(typeof operand)) {
+                fail(`${path}.value`, 'a string, number, boolean or condition');
+            }
+            break;
+        }
+        case 'and':
+        case 'or':
+            expectArray(value['conditions'], `${path}.conditions`).forEach((c, i) => {
+                assertCondition(c, `${path}.conditions[${String(i)}]`);
+            });
+            break;
+        case 'not':
+            assertCondition(value['condition'], `${path}.condition`);
+            break;
+        case 'null':
+            break;
+        default:
+            fail(`${path}.type`, "'compare', 'and', 'or', 'not' or 'null'");
+    }
+}
+
+/**
+ * Checks that a value is a well-formed {@link BucketQueryAst} of the
+ * current version, so ASTs loaded from storage fail early with the path
+ * of the first problem.
+ *
+ * @throws {BucketQueryAstError} If the value is not a valid AST.
+ */
+export function assertBucketQueryAst(value: unknown): asserts value is BucketQueryAst {
+    if (!isRecord(value)) fail('$', 'an object');
+    if (value['version'] !== BUCKET_QUERY_AST_VERSION) {
+        fail('version', `version ${String(BUCKET_QUERY_AST_VERSION)}`);
+    }
+    expectString(value['bucket'], 'bucket');
+
+    expectArray(value['joins'], 'joins').forEach((join, i) => {
+        const path = `joins[${String(i)}]`;
+        if (!isRecord(join)) fail(path, 'a join object');
+        expectString(join['target'], `${path}.target`);
+        if (join['alias'] !== undefined) expectString(join['alias'], `${path}.alias`);
+        expectString(join['onSource'], `${path}.onSource`);
+        expectString(join['onTarget'], `${path}.onTarget`);
+    });
+
+    expectArray(value['select'], 'select').forEach((field, i) => {
+        expectString(field, `select[${String(i)}]`);
+    });
+
+    expectArray(value['where'], 'where').forEach((group, i) => {
+        expectArray(group, `where[${String(i)}]`).forEach((condition, j) => {
+            assertCondition(condition, `where[${String(i)}][${String(j)}]`);
+        });
+    });
+
+    expectArray(value['orderBy'], 'orderBy').forEach((order, i) => {
+        const path = `orderBy[${String(i)}]`;
+        if (!isRecord(order)) fail(path, 'an orderBy object');
+        expectString(order['field'], `${path}.field`);
+        if (order['direction'] !== 'asc' && order['direction'] !== 'desc') fail(`${path}.direction`, "'asc' or 'desc'");
+    });
+
+    const limit = value['limit'];
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > QUERY_DEFAULTS.MAX_LIMIT) {
+        fail('limit', `an integer from 1 to ${String(QUERY_DEFAULTS.MAX_LIMIT)}`);
+    }
+    if (typeof value['offset'] !== 'number' || !Number.isFinite(value['offset'])) {
+        fail('offset', 'a number');
+    }
+}
@@ -1,22 +1,61 @@
+import type { BucketExecutor } from './client.js';
+import { BucketClient, bucketApiUrl } from './client.js';
+import type { DiagnosticsOptions } from './diagnostics.js';
+import { isStrict, reportWarning, urlLengthLimit } from './diagnostics.js';
+import {
+    InvalidLimitError,
+    InvalidOffsetError,
+    InvalidPageError,
+    UnknownAliasError,
+    UnknownBucketError,
+    UnknownFieldError,
+} from './errors.js';
 import type { BucketName, BucketRegistry } from './generated/definitions.js';
 import { BUCKET_FIELDS } from './generated/definitions.js';
-import type { BucketMetaFields, SelectResult, ValidField } from './response-types.js';
+import type { BucketJoinAst, BucketQueryAst } from './query-ast.js';
+import { assertBucketQueryAst, BUCKET_QUERY_AST_VERSION, conditionFromAst, conditionToAst } from './query-ast.js';
+import type { QueryDiagnostic } from './query-lint.js';
+import { isFieldSelected, validateQuery } from './query-lint.js';
+import type {
+    AnchoredBucket,
+    BucketMetaFields,
+    NarrowFields,
+    NonNullFields,
+    SelectResult,
+    ValidField,
+    VersionedBucket,
+} from './response-types.js';
 import type {
     BucketCondition,
     BucketHelperCondition,
+    BucketResponse,
     Operator,
     OrderByDirection,
+    PaginationOptions,
     ScalarValue,
     SimpleCondition,
 } from './types.js';
 import { Bucket, QUERY_DEFAULTS } from './types.js';
 
-/** Base URL for the OSRS Wiki Bucket API. */
-const BUCKET_API_BASE = 'https://oldschool.runescape.wiki/api.php';
-
 /** Meta fields auto-injected into every select to match BucketMetaFields typing. */
 const META_FIELDS = ['page_name', 'page_name_sub'] as const;
 
+/**
+ * The result shape produced by the first `.select()`. Narrowing applied to
+ * the default full-bucket shape before it (e.g. by `.whereNotNull()`) carries
+ * over to the selected fields.
+ */
+type FirstSelection<
+    TMain extends BucketName,
+    TJoinMap extends Record<string, BucketName>,
+    TSelected,
+    F extends string,
+> = BucketRegistry[TMain] & BucketMetaFields extends TSelected
+    ? SelectResult<TMain, TJoinMap, F> & BucketMetaFields
+    : SelectResult<TMain, TJoinMap, F> &
+          BucketMetaFields &
+          Pick<TSelected, keyof SelectResult<TMain, TJoinMap, F> & keyof TSelected>;
+
 /**
  * A type-safe query builder for OSRS Wiki Buckets.
  *
@@ -37,7 +76,7 @@ const META_FIELDS = ['page_name', 'page_name_sub'] as const;
  *
  * const query = bucket('exchange').select('id', 'name', 'value');
  * type Row = InferBucketResult<typeof query>;
- * // Row = { id: number; name: string; value: number; page_name: string; page_name_sub: string }
+ * // Row = { id: number | null; name: string | null; value: number | null; page_name: string; page_name_sub: string }
  * ```
  */
 export class BucketQueryBuilder<
@@ -55,17 +94,27 @@ export class BucketQueryBuilder<
     declare readonly __resultType: TSelected;
 
     private readonly mainBucket: TMain;
-    private joins: Array<{ target: string; alias?: string; onSource: string; onTarget: string }> = [];
+    private joins: BucketJoinAst[] = [];
     private selections: string[] = [];
     private whereClauses: BucketCondition[] = [];
     private limitValue: number = QUERY_DEFAULTS.LIMIT;
     private offsetValue: number = QUERY_DEFAULTS.OFFSET;
     private orderClauses: Array<{ field: string; direction: OrderByDirection }> = [];
     private aliasMap: Record<string, string> = {};
+    private readonly options: DiagnosticsOptions;
 
-    constructor(bucket: TMain) {
+    /**
+     * @param bucket - The name of the bucket to query.
+     * @param options - Where this builder's warnings go and whether it is strict; unset options fall back to {@link configureDiagnostics}.
+     * @throws {UnknownBucketError} In strict mode, if the bucket is not in the schema.
+     */
+    constructor(bucket: TMain, options: DiagnosticsOptions = {}) {
         this.mainBucket = bucket;
         this.aliasMap[bucket] = bucket;
+        this.options = options;
+        if (isStrict(options) && !BUCKET_FIELDS[bucket]) {
+            throw new UnknownBucketError(bucket);
+        }
     }
 
     /**
@@ -96,9 +145,12 @@ export class BucketQueryBuilder<
         TJoinMap,
         THasSelected extends true
             ? TSelected & SelectResult<TMain, TJoinMap, F>
-            : SelectResult<TMain, TJoinMap, F> & BucketMetaFields,
+            : FirstSelection<TMain, TJoinMap, TSelected, F>,
         true
     > {
+        for (const field of fields) {
+            if (field !== '*') this.assertKnownField(field, this.mainBucket, this.aliasMap, true);
+        }
         this.selections.push(...fields);
         // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-explicit-any
         return this as any;
@@ -162,7 +214,7 @@ export class BucketQueryBuilder<
         aliasOrSourceField: string,
         sourceOrTargetField: string,
         maybeTargetField?: string,
-    ): BucketQueryBuilder<TMain, Record<string, BucketName>, TSelected, THasSelected> {
+    ): BucketQueryBuilder<TMain, TJoinMap & Record<string, BucketName>, TSelected, THasSelected> {
         let alias: string | undefined;
         let sourceField: string;
         let targetField: string;
@@ -176,7 +228,16 @@ export class BucketQueryBuilder<
             targetField = sourceOrTargetField;
         }
 
-        const joinEntry: { target: string; alias?: string; onSource: string; onTarget: string } = {
+        if (isStrict(this.options)) {
+            if (!BUCKET_FIELDS[targetBucket]) throw new UnknownBucketError(targetBucket);
+            this.assertKnownField(sourceField, this.mainBucket, this.aliasMap);
+            this.assertKnownField(targetField, targetBucket, {
+                ...this.aliasMap,
+                [alias ?? targetBucket]: targetBucket,
+            });
+        }
+
+        const joinEntry: BucketJoinAst = {
             target: targetBucket,
             onSource: sourceField,
             onTarget: targetField,
@@ -200,19 +261,56 @@ export class BucketQueryBuilder<
     /**
      * Filters results by field equality.
      *
+     * Also narrows the field to the literal value in the inferred result
+     * type, so `.where('members', true)` types `members` as `true`.
+     *
      * @param field - The field to filter on. Supports autocomplete for valid field names.
      * @param value - The value to match (implies `=` operator).
+     *
+     * @example
+     * ```typescript
+     * const query = bucket('exchange').select('name', 'value').where('name', 'Abyssal whip');
+     * type Row = InferBucketResult<typeof query>;
+     * // Row['name'] is 'Abyssal whip'
+     * ```
      */
-    where(field: ValidField<TMain, TJoinMap>, value: ScalarValue | BucketHelperCondition): this;
+    where<F extends ValidField<TMain, TJoinMap>, const V extends ScalarValue>(
+        field: F,
+        value: V,
+    ): BucketQueryBuilder<TMain, TJoinMap, NarrowFields<TSelected, F, V>, THasSelected>;
+
+    /**
+     * Filters results by a helper condition such as `Bucket.Null()`.
+     *
+     * @param field - The field to filter on. Supports autocomplete for valid field names.
+     * @param value - The helper condition to match.
+     */
+    where(field: ValidField<TMain, TJoinMap>, value: BucketHelperCondition): this;
 
     /**
      * Filters results with an explicit operator.
      *
+     * With the `=` operator the field is narrowed to the literal value, as
+     * with the two-argument form.
+     *
      * @param field - The field to filter on. Supports autocomplete for valid field names.
      * @param op - The comparison operator (`=`, `!=`, `>`, `<`, `>=`, `<=`).
      * @param value - The value to compare against.
      */
-    where(field: ValidField<TMain, TJoinMap>, op: Operator, value: ScalarValue | BucketHelperCondition): this;
+    where<F extends ValidField<TMain, TJoinMap>, const O extends Operator, const V extends ScalarValue>(
+        field: F,
+        op: O,
+        value: V,
+    ): BucketQueryBuilder<TMain, TJoinMap, O extends '=' ? NarrowFields<TSelected, F, V> : TSelected, THasSelected>;
+
+    /**
+     * Filters results with an explicit operator and a helper condition.
+     *
+     * @param field - The field to filter on. Supports autocomplete for valid field names.
+     * @param op - The comparison operator (`=`, `!=`, `>`, `<`, `>=`, `<=`).
+     * @param value - The helper condition to compare against.
+     */
+    where(field: ValidField<TMain, TJoinMap>, op: Operator, value: BucketHelperCondition): this;
 
     /**
      * Adds multiple conditions (implicitly AND).
@@ -221,29 +319,32 @@ export class BucketQueryBuilder<
      */
     where(...conditions: BucketCondition[]): this;
 
-    where(...args: (string | BucketCondition | ScalarValue | BucketHelperCondition)[]): this {
+    where(
+        ...args: (string | BucketCondition | ScalarValue | BucketHelperCondition)[]
+        // The narrowing overloads return a different TSelected, which `this` cannot express.
+        // eslint-disable-next-line @typescript-eslint/prefer-return-this-type
+    ): BucketQueryBuilder<TMain, TJoinMap, TSelected, THasSelected> {
         const first = args[0];
-        if (typeof first === 'string') {
-            if (args.length === 2) {
-                const val = args[1];
-                if (typeof val === 'object' && '_type' in val) {
-                    this.whereClauses.push([first, val as BucketHelperCondition]);
-                } else {
-                    this.whereClauses.push([first, val as ScalarValue]);
-                }
-            } else if (args.length === 3) {
-                const val = args[2];
-                if (typeof val === 'object' && '_type' in val) {
-                    this.whereClauses.push([first, args[1] as Operator, val as BucketHelperCondition]);
-                } else {
-                    this.whereClauses.push([first, args[1] as Operator, val as ScalarValue]);
-                }
+        let clause: BucketCondition;
+        if (typeof first === 'string' && args.length === 2) {
+            const val = args[1];
+            if (typeof val === 'object' && '_type' in val) {
+                clause = [first, val as BucketHelperCondition];
+            } else {
+                clause = [first, val as ScalarValue];
+            }
+        } else if (typeof first === 'string' && args.length === 3) {
+            const val = args[2];
+            if (typeof val === 'object' && '_type' in val) {
+                clause = [first, args[1] as Operator, val as BucketHelperCondition];
             } else {
-                this.whereClauses.push({ _group: args as BucketCondition[] });
+                clause = [first, args[1] as Operator, val as ScalarValue];
             }
         } else {
-            this.whereClauses.push({ _group: args as BucketCondition[] });
+            clause = { _group: args as BucketCondition[] };
         }
+        this.assertConditionFields(clause);
+        this.whereClauses.push(clause);
         return this;
     }
 
@@ -254,7 +355,8 @@ export class BucketQueryBuilder<
      * @param value - The value to exclude.
      */
     whereNot(field: ValidField<TMain, TJoinMap>, value: ScalarValue): this {
-        return this.where(field, '!=', value);
+        this.where(field, '!=', value);
+        return this;
     }
 
     /**
@@ -269,10 +371,25 @@ export class BucketQueryBuilder<
     /**
      * Filters for rows where field is NOT NULL.
      *
+     * Also narrows the field to non-null in the inferred result type, so
+     * rows no longer need a null check. Only fields already in the result
+     * shape are narrowed: select a joined field before filtering on it.
+     *
      * @param field - The field to check for NOT NULL.
+     *
+     * @example
+     * ```typescript
+     * const query = bucket('infobox_item').select('item_name', 'weight').whereNotNull('weight');
+     * type Row = InferBucketResult<typeof query>;
+     * // Row['weight'] is number, Row['item_name'] is still string | null
+     * ```
      */
-    whereNotNull(field: ValidField<TMain, TJoinMap>): this {
-        return this.where(field, '!=', Bucket.Null());
+    whereNotNull<F extends ValidField<TMain, TJoinMap>>(
+        field: F,
+    ): BucketQueryBuilder<TMain, TJoinMap, NonNullFields<TSelected, F>, THasSelected> {
+        this.where(field, '!=', Bucket.Null());
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-explicit-any
+        return this as any;
     }
 
     /**
@@ -282,7 +399,8 @@ export class BucketQueryBuilder<
      * @param range - A tuple of `[min, max]` values (inclusive on both ends).
      */
     whereBetween(field: ValidField<TMain, TJoinMap>, range: [ScalarValue, ScalarValue]): this {
-        return this.where(field, '>=', range[0]).where(field, '<=', range[1]);
+        this.where(field, '>=', range[0]).where(field, '<=', range[1]);
+        return this;
     }
 
     /**
@@ -302,31 +420,104 @@ export class BucketQueryBuilder<
      * Filters for rows where field matches any of the given values.
      * Generates `Bucket.Or({field, v1}, {field, v2}, ...)` internally.
      *
+     * Also narrows the field to the union of the values in the inferred
+     * result type.
+     *
      * @param field - The field to match against.
      * @param values - An array of values; rows matching any value are included.
      *
      * @example
      * ```typescript
      * bucket('exchange').whereIn('name', ['Bronze axe', 'Iron axe', 'Steel axe']);
+     * // the inferred `name` is 'Bronze axe' | 'Iron axe' | 'Steel axe'
      * ```
      */
-    whereIn(field: ValidField<TMain, TJoinMap>, values: ScalarValue[]): this {
-        const conditions = values.map((v) => [field, v] as BucketCondition);
-        this.whereClauses.push(Bucket.Or(...conditions));
+    whereIn<F extends ValidField<TMain, TJoinMap>, const V extends readonly ScalarValue[]>(
+        field: F,
+        values: V,
+    ): BucketQueryBuilder<TMain, TJoinMap, NarrowFields<TSelected, F, V[number]>, THasSelected> {
+        const condition = Bucket.Or(...values.map((v) => [field, v] as BucketCondition));
+        // An empty `values` leaves no condition to check the field through.
+        this.assertKnownField(field, this.mainBucket, this.aliasMap);
+        this.assertConditionFields(condition);
+        this.whereClauses.push(condition);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-explicit-any
+        return this as any;
+    }
+
+    /**
+     * Keeps one row per page on buckets with several versions per page:
+     * the row marked `default_version`, or the only row of a page without
+     * versions (whose `default_version` is `NULL`).
+     *
+     * Only available on buckets whose schema has `default_version`
+     * ({@link VersionedBucket}).
+     *
+     * @example
+     * ```typescript
+     * bucket('infobox_monster').select('name', 'combat_level').where('name', 'Goblin').defaultVersionOnly();
+     * bucket('exchange').defaultVersionOnly(); // ❌ type error: exchange has no versions
+     * ```
+     */
+    defaultVersionOnly<M extends VersionedBucket>(
+        this: BucketQueryBuilder<M, TJoinMap, TSelected, THasSelected>,
+    ): BucketQueryBuilder<M, TJoinMap, TSelected, THasSelected> {
+        const condition = Bucket.Or(['default_version', true], ['default_version', Bucket.Null()]);
+        this.assertConditionFields(condition);
+        this.whereClauses.push(condition);
         return this;
     }
 
+    /**
+     * Filters for one version of a page by its `version_anchor`, e.g.
+     * `'Level 5'`. Narrows `version_anchor` like `.where()` does.
+     *
+     * Only available on buckets whose schema has `version_anchor`
+     * ({@link AnchoredBucket}).
+     *
+     * @param anchor - The version's anchor.
+     *
+     * @example
+     * ```typescript
+     * bucket('infobox_item').select('item_name', 'weight').where('item_name', 'Waterskin').version('Full');
+     * ```
+     */
+    version<M extends AnchoredBucket, const V extends string>(
+        this: BucketQueryBuilder<M, TJoinMap, TSelected, THasSelected>,
+        anchor: V,
+    ): BucketQueryBuilder<M, TJoinMap, NarrowFields<TSelected, 'version_anchor', V>, THasSelected> {
+        const condition: BucketCondition = ['version_anchor', anchor];
+        this.assertConditionFields(condition);
+        this.whereClauses.push(condition);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-explicit-any
+        return this as any;
+    }
+
     /**
      * Sets the maximum number of rows to return.
      * Accepted range is 1–5000. Defaults to 500.
      *
+     * Zero or negative limits reset to the default, and limits above 5000
+     * are clamped with a `LIMIT_CLAMPED` warning.
+     *
      * @param limit The row limit.
+     * @throws {InvalidLimitError} In strict mode, if `limit` is not a positive integer.
      */
     limit(limit: number): this {
+        if (isStrict(this.options) && !(Number.isInteger(limit) && limit > 0)) {
+            throw new InvalidLimitError(limit);
+        }
         if (!limit || limit <= 0) {
             this.limitValue = QUERY_DEFAULTS.LIMIT;
         } else if (limit > QUERY_DEFAULTS.MAX_LIMIT) {
-            console.warn(`Limit ${String(limit)} exceeds max ${String(QUERY_DEFAULTS.MAX_LIMIT)}, clamping.`);
+            reportWarning(
+                {
+                    code: 'LIMIT_CLAMPED',
+                    message: `Limit ${String(limit)} exceeds max ${String(QUERY_DEFAULTS.MAX_LIMIT)}, clamping.`,
+                    value: limit,
+                },
+                this.options,
+            );
             this.limitValue = QUERY_DEFAULTS.MAX_LIMIT;
         } else {
             this.limitValue = limit;
@@ -336,8 +527,13 @@ export class BucketQueryBuilder<
 
     /**
      * Sets the row offset for pagination.
+     *
+     * @throws {InvalidOffsetError} In strict mode, if `offset` is not a non-negative integer.
      */
     offset(offset: number): this {
+        if (isStrict(this.options) && !(Number.isInteger(offset) && offset >= 0)) {
+            throw new InvalidOffsetError(offset);
+        }
         this.offsetValue = offset;
         return this;
     }
@@ -345,10 +541,15 @@ export class BucketQueryBuilder<
     /**
      * Pagination helper that computes limit and offset from a page number.
      *
-     * @param page 1-based page number.
+     * @param page 1-based page number. Pages below 1 are treated as page 1.
      * @param perPage Items per page.
+     * @throws {InvalidPageError} In strict mode, if `page` is not an integer of at least 1.
+     * @throws {InvalidLimitError} In strict mode, if `perPage` is not a positive integer.
      */
     paginate(page: number, perPage: number): this {
+        if (isStrict(this.options) && !(Number.isInteger(page) && page >= 1)) {
+            throw new InvalidPageError(page);
+        }
         const p = page < 1 ? 1 : page;
         this.limit(perPage).offset((p - 1) * perPage);
         return this;
@@ -360,6 +561,9 @@ export class BucketQueryBuilder<
      * Useful for building query variants from a shared base without
      * mutating the original.
      *
+     * @param options - Diagnostics options for the copy. Defaults to this builder's.
+     * @throws {UnknownBucketError} If `options` turn on strict mode and the bucket is not in the schema.
+     *
      * @example
      * ```typescript
      * const base = bucket('exchange').select('name', 'value').where('value', '>', 0);
@@ -367,56 +571,125 @@ export class BucketQueryBuilder<
      * const cheap = base.clone().orderBy('value', 'asc').limit(5);
      * ```
      */
-    clone(): BucketQueryBuilder<TMain, TJoinMap, TSelected, THasSelected> {
-        const clone = new BucketQueryBuilder<TMain, TJoinMap, TSelected, THasSelected>(this.mainBucket);
+    clone(options: DiagnosticsOptions = this.options): BucketQueryBuilder<TMain, TJoinMap, TSelected, THasSelected> {
+        const clone = new BucketQueryBuilder<TMain, TJoinMap, TSelected, THasSelected>(this.mainBucket, options);
         clone.aliasMap = { ...this.aliasMap };
-        clone.joins = [...this.joins];
+        clone.joins = this.joins.map((join) => ({ ...join }));
         clone.selections = [...this.selections];
-        clone.whereClauses = JSON.parse(JSON.stringify(this.whereClauses)) as BucketCondition[];
+        clone.whereClauses = structuredClone(this.whereClauses);
         clone.limitValue = this.limitValue;
         clone.offsetValue = this.offsetValue;
-        clone.orderClauses = [...this.orderClauses];
+        clone.orderClauses = this.orderClauses.map((order) => ({ ...order }));
         return clone;
     }
 
+    /**
+     * Serialises the builder's state to a versioned {@link BucketQueryAst}.
+     *
+     * Called by `JSON.stringify`, so a builder can be stored or sent as JSON
+     * and revived with {@link BucketQueryBuilder.fromJSON}. The returned
+     * object shares nothing with the builder.
+     *
+     * @example
+     * ```typescript
+     * const saved = JSON.stringify(bucket('exchange').select('name').where('value', '>', 1000));
+     * const query = BucketQueryBuilder.fromJSON(JSON.parse(saved));
+     * ```
+     */
+    toJSON(): BucketQueryAst<TMain> {
+        return {
+            version: BUCKET_QUERY_AST_VERSION,
+            bucket: this.mainBucket,
+            joins: this.joins.map((join) => ({ ...join })),
+            select: [...this.selections],
+            where: this.whereClauses.map((clause) =>
+                '_group' in clause ? clause._group.map(conditionToAst) : [conditionToAst(clause)],
+            ),
+            orderBy: this.orderClauses.map((order) => ({ ...order })),
+            limit: this.limitValue,
+            offset: this.offsetValue,
+        };
+    }
+
+    /**
+     * Rebuilds a builder from a {@link BucketQueryAst} produced by
+     * {@link BucketQueryBuilder.toJSON}. The result prints the same Lua as
+     * the builder that was serialised.
+     *
+     * The joins and selected fields are only known at runtime, so rows are
+     * typed as plain records.
+     *
+     * @param ast - The AST, e.g. parsed from stored JSON. Validated before use.
+     * @param options - Diagnostics options for the new builder (not part of the AST).
+     * @throws {BucketQueryAstError} If `ast` is malformed or has an unsupported `version`.
+     */
+    static fromJSON<K extends BucketName = BucketName>(
+        ast: BucketQueryAst<K> | BucketQueryAst,
+        options: DiagnosticsOptions = {},
+    ): BucketQueryBuilder<K, Record<string, BucketName>, Record<string, unknown>, boolean> {
+        assertBucketQueryAst(ast);
+
+        const builder = new BucketQueryBuilder<K, Record<string, BucketName>, Record<string, unknown>, boolean>(
+            ast.bucket as K,
+            options,
+        );
+        for (const join of ast.joins) {
+            builder.joins.push({ ...join });
+            builder.aliasMap[join.alias ?? join.target] = join.target;
+        }
+        builder.selections = [...ast.select];
+        builder.whereClauses = ast.where.map((group) => {
+            const conditions = group.map(conditionFromAst);
+            return conditions.length === 1 && conditions[0] ? conditions[0] : { _group: conditions };
+        });
+        builder.orderClauses = ast.orderBy.map((order) => ({ ...order }));
+        builder.limitValue = ast.limit;
+        builder.offsetValue = ast.offset;
+        return builder;
+    }
+
     /**
      * Orders results by a selected field.
      *
-     * @param field Must be included in a prior `.select()` call.
+     * Ordering by a field that is not selected may fail on the Wiki API and
+     * is reported as an `ORDER_BY_NOT_SELECTED` warning.
+     *
+     * @param field Should be included in a prior `.select()` call.
      * @param direction `'asc'` or `'desc'`.
      */
     orderBy(field: keyof TSelected & string, direction: OrderByDirection): this {
-        if (this.selections.length > 0) {
-            const directMatch = this.selections.includes(field);
-            let wildcardMatch = false;
-
-            if (!directMatch) {
-                for (const sel of this.selections) {
-                    if (sel === '*') {
-                        wildcardMatch = true;
-                        break;
-                    }
-                    if (sel.endsWith('.*')) {
-                        const alias = sel.split('.')[0];
-                        if (alias && field.startsWith(alias + '.')) {
-                            wildcardMatch = true;
-                            break;
-                        }
-                    }
-                }
-            }
-
-            if (!directMatch && !wildcardMatch) {
-                console.warn(
-                    `Warning: orderBy field '${field}' is not explicitly selected. This may fail on the Wiki API.`,
-                );
-            }
+        this.assertKnownField(field, this.mainBucket, this.aliasMap);
+        if (!isFieldSelected(this.selections, field)) {
+            reportWarning(
+                {
+                    code: 'ORDER_BY_NOT_SELECTED',
+                    message: `orderBy field '${field}' is not explicitly selected. This may fail on the Wiki API.`,
+                    value: field,
+                },
+                this.options,
+            );
         }
-
         this.orderClauses.push({ field, direction });
         return this;
     }
 
+    /**
+     * Checks the query against the generated bucket schemas and returns
+     * structured diagnostics: unknown buckets, aliases and fields, range
+     * operators on boolean or repeated fields, mistyped values and ordering
+     * by unselected fields. Nothing is logged; an empty array means the
+     * query is clean. See {@link validateQuery}.
+     *
+     * @example
+     * ```typescript
+     * const problems = bucket('exchange').select('name').orderBy('value', 'desc').lint();
+     * // [{ code: 'ORDER_BY_NOT_SELECTED', severity: 'warning', path: 'orderBy[0]', ... }]
+     * ```
+     */
+    lint(): QueryDiagnostic[] {
+        return validateQuery(this);
+    }
+
     /**
      * Convenience method that sets `limit(1)`.
      */
@@ -425,6 +698,57 @@ export class BucketQueryBuilder<
         return this;
     }
 
+    /**
+     * In strict mode, throws unless `field` names a known field: a plain field
+     * of `defaultBucket`, or `prefix.field` where the prefix is the main
+     * bucket, a join alias or a joined bucket. The `page_name` meta fields
+     * are always accepted.
+     */
+    private assertKnownField(
+        field: string,
+        defaultBucket: string,
+        aliases: Record<string, string>,
+        allowWildcard = false,
+    ): void {
+        if (!isStrict(this.options)) return;
+
+        let bucketName = defaultBucket;
+        let name = field;
+        const dot = field.indexOf('.');
+        if (dot !== -1) {
+            const prefix = field.slice(0, dot);
+            const resolved = aliases[prefix] ?? this.joins.find((j) => j.target === prefix)?.target;
+            if (!resolved) throw new UnknownAliasError(prefix, field);
+            bucketName = resolved;
+            name = field.slice(dot + 1);
+        }
+
+        if ((allowWildcard && name === '*') || name === 'page_name' || name === 'page_name_sub') return;
+        if (!BUCKET_FIELDS[bucketName]?.includes(name)) {
+            throw new UnknownFieldError(field, bucketName);
+        }
+    }
+
+    /** In strict mode, checks every field referenced by a condition, including inside helpers. */
+    private assertConditionFields(condition: BucketCondition): void {
+        if (!isStrict(this.options)) return;
+        if (Array.isArray(condition)) {
+            this.assertKnownField(condition[0], this.mainBucket, this.aliasMap);
+            const value = condition[condition.length - 1];
+            if (this.isHelperCondition(value)) this.assertConditionFields(value);
+        } else if ('_group' in condition) {
+            condition._group.forEach((c) => {
+                this.assertConditionFields(c);
+            });
+        } else if (condition._type === 'AND' || condition._type === 'OR') {
+            condition.conditions.forEach((c) => {
+                this.assertConditionFields(c);
+            });
+        } else if (condition._type === 'NOT') {
+            this.assertConditionFields(condition.condition);
+        }
+    }
+
     /**
      * Escapes a string for safe inclusion in a Lua single-quoted string literal.
      * Backslashes are escaped first (to avoid double-escaping), then single quotes.
@@ -635,7 +959,12 @@ export class BucketQueryBuilder<
      * wraps the result in the standard API URL template. The query is
      * always URI-encoded.
      *
+     * A URL longer than the `maxUrlLength` diagnostics option (4000 by
+     * default) is reported as a `URL_TOO_LONG` warning, since the Wiki may
+     * reject it. {@link BucketClient} sends such queries as a POST instead.
+     *
      * @returns The complete API URL as a string.
+     * @throws {BucketWarningError} In strict mode, if the URL is longer than `maxUrlLength`.
      *
      * @example
      * ```typescript
@@ -644,8 +973,151 @@ export class BucketQueryBuilder<
      * ```
      */
     toUrl(): string {
-        const encodedQuery = this.run();
-        return `${BUCKET_API_BASE}?action=bucket&format=json&query=${encodedQuery}`;
+        const url = bucketApiUrl(this.printSQL());
+        const limit = urlLengthLimit(this.options);
+        if (url.length > limit) {
+            reportWarning(
+                {
+                    code: 'URL_TOO_LONG',
+                    message: `Query URL is ${String(url.length)} characters, over the ${String(limit)} limit. The Wiki may reject it as a GET request.`,
+                    value: url.length,
+                },
+                this.options,
+            );
+        }
+        return url;
+    }
+
+    /**
+     * The length of the URL `.toUrl()` builds, without reporting a warning.
+     * Wildcards expand to every field of their bucket, so `'*'` selects can
+     * be far longer than they look.
+     *
+     * @example
+     * ```typescript
+     * bucket('infobox_monster').select('*').urlLength(); // > 1000
+     * ```
+     */
+    urlLength(): number {
+        return bucketApiUrl(this.printSQL()).length;
+    }
+
+    /**
+     * Sends the query to the Wiki API and returns a typed response.
+     *
+     * The row type is inferred from the builder, exactly as with
+     * {@link BucketResponse.from}. Pass a configured {@link BucketClient}
+     * (or any other {@link BucketExecutor}) to customise the transport;
+     * otherwise a default client backed by the global `fetch` is used.
+     *
+     * @param executor - The executor to send the query through.
+     *
+     * @example
+     * ```typescript
+     * const response = await bucket('exchange')
+     *     .select('name', 'value')
+     *     .where('name', 'Abyssal whip')
+     *     .execute();
+     * response.first()?.value; // ✅ typed as number | null
+     * ```
+     */
+    execute(executor: BucketExecutor = new BucketClient()): Promise<BucketResponse<TSelected>> {
+        return executor.execute(this);
+    }
+
+    /**
+     * Fetches the query page by page, yielding each page of rows.
+     *
+     * Each page is requested from a clone with `limit()` set to the page size
+     * and `offset()` advanced past the rows already seen, starting from this
+     * builder's own offset. Iteration stops when a page comes back short or
+     * when `maxRows` rows have been fetched — the final request is shrunk so
+     * the cap is never exceeded.
+     *
+     * @param executor - The executor to send each page through.
+     * @param options - Page size and row cap.
+     *
+     * @example
+     * ```typescript
+     * for await (const page of bucket('exchange').select('name', 'value').iteratePages(client, { pageSize: 1000 })) {
+     *     await saveBatch(page);
+     * }
+     * ```
+     */
+    async *iteratePages(
+        executor: BucketExecutor = new BucketClient(),
+        options: PaginationOptions = {},
+    ): AsyncGenerator<TSelected[], void, undefined> {
+        // Fractional sizes are rounded down, so a page or the cap never asks for part of a row.
+        const requestedSize = Math.floor(options.pageSize ?? QUERY_DEFAULTS.MAX_LIMIT);
+        const pageSize = requestedSize > 0 ? Math.min(requestedSize, QUERY_DEFAULTS.MAX_LIMIT) : QUERY_DEFAULTS.LIMIT;
+        const maxRows = Math.floor(options.maxRows ?? Infinity);
+        let offset = this.offsetValue;
+        let fetched = 0;
+
+        while (fetched < maxRows) {
+            const size = Math.min(pageSize, maxRows - fetched);
+            const response = await executor.execute(this.clone().limit(size).offset(offset));
+            const rows = response.results;
+
+            if (rows.length > 0) {
+                yield rows;
+            }
+
+            fetched += rows.length;
+            offset += size;
+
+            if (rows.length < size) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Fetches the query page by page, yielding one row at a time.
+     * Accepts the same options as {@link BucketQueryBuilder.iteratePages}.
+     *
+     * @param executor - The executor to send each page through.
+     * @param options - Page size and row cap.
+     *
+     * @example
+     * ```typescript
+     * for await (const monster of bucket('infobox_monster').select('name', 'combat_level').iterate()) {
+     *     console.log(monster.name, monster.combat_level);
+     * }
+     * ```
+     */
+    async *iterate(
+        executor: BucketExecutor = new BucketClient(),
+        options: PaginationOptions = {},
+    ): AsyncGenerator<TSelected, void, undefined> {
+        for await (const page of this.iteratePages(executor, options)) {
+            yield* page;
+        }
+    }
+
+    /**
+     * Fetches every row of the query, walking past `QUERY_DEFAULTS.MAX_LIMIT`
+     * by paging through the results.
+     * Accepts the same options as {@link BucketQueryBuilder.iteratePages}.
+     *
+     * @param executor - The executor to send each page through.
+     * @param options - Page size and row cap.
+     *
+     * @example
+     * ```typescript
+     * const everything = await bucket('exchange').select('name', 'value').fetchAll(client, { maxRows: 20000 });
+     * ```
+     */
+    async fetchAll(
+        executor: BucketExecutor = new BucketClient(),
+        options: PaginationOptions = {},
+    ): Promise<TSelected[]> {
+        const rows: TSelected[] = [];
+        for await (const page of this.iteratePages(executor, options)) {
+            rows.push(...page);
+        }
+        return rows;
     }
 }
 
@@ -657,6 +1129,7 @@ export class BucketQueryBuilder<
  * chain methods.
  *
  * @param bucket - The name of the bucket to query.
+ * @param options - Where this builder's warnings go, e.g. `{ logger: silentLogger }` or `{ strict: true }`.
  *
  * @example
  * ```typescript
@@ -668,6 +1141,6 @@ export class BucketQueryBuilder<
  *   .run();
  * ```
  */
-export function bucket<K extends BucketName>(bucket: K): BucketQueryBuilder<K> {
-    return new BucketQueryBuilder(bucket);
+export function bucket<K extends BucketName>(bucket: K, options: DiagnosticsOptions = {}): BucketQueryBuilder<K> {
+    return new BucketQueryBuilder(bucket, options);
 }
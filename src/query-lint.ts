@@ -0,0 +1,262 @@
+/**
+ * Schema-aware linting of bucket queries.
+ *
+ * The builder's types catch most mistakes, but not those made through
+ * untyped paths (parsed or deserialised queries, `as any`, joined aliases
+ * typed as plain strings) or those that only show up on the wiki. The
+ * linter checks a query's {@link BucketQueryAst} against
+ * {@link BUCKET_FIELD_TYPES} and returns structured diagnostics instead of
+ * writing to the console, so callers decide what to surface.
+ *
+ * @module query-lint
+ */
+
+import type { BucketFieldSchema } from './generated/definitions.js';
+import { BUCKET_FIELD_TYPES } from './generated/definitions.js';
+import type { BucketConditionAst, BucketJoinAst, BucketOrderAst, BucketQueryAst } from './query-ast.js';
+import { assertBucketQueryAst } from './query-ast.js';
+
+/**
+ * Stable identifiers for each kind of problem the linter reports.
+ *
+ * - `UNKNOWN_BUCKET`: the main or a joined bucket is not in the schema.
+ * - `UNKNOWN_ALIAS`: a `prefix.field` reference whose prefix is neither a join alias nor a joined bucket.
+ * - `UNKNOWN_FIELD`: the field does not exist on its bucket.
+ * - `ORDER_BY_NOT_SELECTED`: `orderBy()` on a field that is not selected, which the wiki may reject.
+ * - `INVALID_OPERATOR`: a range operator (`>`, `<`, `>=`, `<=`) on a boolean or repeated field.
+ * - `VALUE_TYPE_MISMATCH`: the compared value's type does not match the field's type.
+ */
+export type QueryDiagnosticCode =
+    | 'UNKNOWN_BUCKET'
+    | 'UNKNOWN_ALIAS'
+    | 'UNKNOWN_FIELD'
+    | 'ORDER_BY_NOT_SELECTED'
+    | 'INVALID_OPERATOR'
+    | 'VALUE_TYPE_MISMATCH';
+
+/**
+ * `error` marks queries the wiki rejects or that cannot match what was
+ * intended; `warning` marks queries that run but probably misbehave.
+ */
+export type QueryDiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A single problem found by {@link validateQuery}.
+ */
+export interface QueryDiagnostic {
+    code: QueryDiagnosticCode;
+    severity: QueryDiagnosticSeverity;
+    message: string;
+    /** Where the offending clause is in the query's AST, e.g. `'orderBy[0]'` or `'where[1][0].conditions[2]'`. */
+    path: string;
+    /** The offending clause: a join, a selector, a condition or an ordering. */
+    clause: BucketJoinAst | BucketConditionAst | BucketOrderAst | string;
+}
+
+const META_FIELDS: readonly string[] = ['page_name', 'page_name_sub'];
+
+const RANGE_OPERATORS: readonly string[] = ['>', '<', '>=', '<='];
+
+const JS_TYPES: Record<BucketFieldSchema['type'], string> = {
+    TEXT: 'string',
+    PAGE: 'string',
+    INTEGER: 'number',
+    DECIMAL: 'number',
+    DOUBLE: 'number',
+    BOOLEAN: 'boolean',
+};
+
+/**
+ * Whether `field` is covered by the selectors passed to `.select()`: listed
+ * directly, by `*` or by a matching `alias.*`. An empty selection covers
+ * every field.
+ */
+export function isFieldSelected(selections: readonly string[], field: string): boolean {
+    if (selections.length === 0 || selections.includes(field) || selections.includes('*')) return true;
+    return selections.some((sel) => sel.endsWith('.*') && field.startsWith(sel.slice(0, -1)));
+}
+
+/** Collects diagnostics for one query, resolving aliases the same way `printSQL()` does. */
+class QueryLinter {
+    readonly diagnostics: QueryDiagnostic[] = [];
+    private readonly aliases: Record<string, string> = {};
+
+    constructor(private readonly ast: BucketQueryAst) {}
+
+    lint(): QueryDiagnostic[] {
+        const { ast } = this;
+
+        if (!BUCKET_FIELD_TYPES[ast.bucket]) {
+            this.report('UNKNOWN_BUCKET', 'error', `Unknown bucket '${ast.bucket}'`, 'bucket', ast.bucket);
+        }
+
+        ast.joins.forEach((join, i) => {
+            const path = `joins[${String(i)}]`;
+            this.aliases[join.alias ?? join.target] = join.target;
+            // printSQL() passes unaliased references through, so the bucket's own name works too.
+            this.aliases[join.target] ??= join.target;
+            if (!BUCKET_FIELD_TYPES[join.target]) {
+                this.report('UNKNOWN_BUCKET', 'error', `Unknown joined bucket '${join.target}'`, path, join);
+                return;
+            }
+            this.resolve(join.onSource, ast.bucket, path, join);
+            this.resolve(join.onTarget, join.target, path, join);
+        });
+
+        ast.select.forEach((selector, i) => {
+            const path = `select[${String(i)}]`;
+            if (selector === '*') return;
+            if (selector.endsWith('.*')) {
+                const prefix = selector.slice(0, -2);
+                if (!this.aliases[prefix]) {
+                    this.report('UNKNOWN_ALIAS', 'error', `Unknown alias '${prefix}' in '${selector}'`, path, selector);
+                }
+                return;
+            }
+            this.resolve(selector, ast.bucket, path, selector);
+        });
+
+        ast.where.forEach((group, i) => {
+            group.forEach((condition, j) => {
+                this.lintCondition(condition, `where[${String(i)}][${String(j)}]`);
+            });
+        });
+
+        ast.orderBy.forEach((order, i) => {
+            const path = `orderBy[${String(i)}]`;
+            this.resolve(order.field, ast.bucket, path, order);
+            if (!isFieldSelected(ast.select, order.field)) {
+                this.report(
+                    'ORDER_BY_NOT_SELECTED',
+                    'warning',
+                    `orderBy field '${order.field}' is not explicitly selected. This may fail on the Wiki API.`,
+                    path,
+                    order,
+                );
+            }
+        });
+
+        return this.diagnostics;
+    }
+
+    private lintCondition(condition: BucketConditionAst, path: string): void {
+        switch (condition.type) {
+            case 'and':
+            case 'or':
+                condition.conditions.forEach((c, i) => {
+                    this.lintCondition(c, `${path}.conditions[${String(i)}]`);
+                });
+                return;
+            case 'not':
+                this.lintCondition(condition.condition, `${path}.condition`);
+                return;
+            case 'null':
+                return;
+            case 'compare':
+                break;
+        }
+
+        const schema = this.resolve(condition.field, this.ast.bucket, path, condition);
+        const { operator, value, field } = condition;
+
+        if (typeof value === 'object') {
+            this.lintCondition(value, `${path}.value`);
+            return;
+        }
+        if (!schema) return;
+
+        if (
+            operator !== undefined &&
+            RANGE_OPERATORS.includes(operator) &&
+            (schema.type === 'BOOLEAN' || schema.repeated)
+        ) {
+            const kind = schema.repeated ? `repeated ${schema.type}` : schema.type;
+            this.report(
+                'INVALID_OPERATOR',
+                'error',
+                `Operator '${operator}' cannot be used on ${kind} field '${field}'`,
+                path,
+                condition,
+            );
+        }
+
+        if (typeof value !== JS_TYPES[schema.type]) {
+            this.report(
+                'VALUE_TYPE_MISMATCH',
+                'warning',
+                `Field '${field}' is ${schema.type} but is compared with ${typeof value} ${JSON.stringify(value)}`,
+                path,
+                condition,
+            );
+        }
+    }
+
+    /**
+     * Resolves a field reference to its schema, reporting unknown aliases and
+     * fields. Returns `undefined` when the field cannot be checked.
+     */
+    private resolve(
+        field: string,
+        defaultBucket: string,
+        path: string,
+        clause: QueryDiagnostic['clause'],
+    ): BucketFieldSchema | undefined {
+        let bucketName = defaultBucket;
+        let name = field;
+
+        const dot = field.indexOf('.');
+        if (dot !== -1) {
+            const prefix = field.slice(0, dot);
+            name = field.slice(dot + 1);
+            const aliased = this.aliases[prefix] ?? (prefix === this.ast.bucket ? prefix : undefined);
+            if (aliased === undefined) {
+                this.report('UNKNOWN_ALIAS', 'error', `Unknown alias '${prefix}' in '${field}'`, path, clause);
+                return undefined;
+            }
+            bucketName = aliased;
+        }
+
+        const fields = BUCKET_FIELD_TYPES[bucketName];
+        if (!fields || META_FIELDS.includes(name)) return undefined;
+
+        const schema = fields[name];
+        if (!schema) {
+            this.report('UNKNOWN_FIELD', 'error', `Unknown field '${name}' in bucket '${bucketName}'`, path, clause);
+        }
+        return schema;
+    }
+
+    private report(
+        code: QueryDiagnosticCode,
+        severity: QueryDiagnosticSeverity,
+        message: string,
+        path: string,
+        clause: QueryDiagnostic['clause'],
+    ): void {
+        this.diagnostics.push({ code, severity, message, path, clause });
+    }
+}
+
+/**
+ * Checks a query against the generated bucket schemas and returns every
+ * problem found, in clause order. An empty array means the query is clean.
+ *
+ * Accepts a builder (anything with `toJSON()`) or a {@link BucketQueryAst},
+ * e.g. one loaded from storage. {@link BucketQueryBuilder.lint} is shorthand
+ * for `validateQuery(builder)`.
+ *
+ * @param query - The builder or AST to check.
+ * @throws {BucketQueryAstError} If an AST is passed and it is malformed.
+ *
+ * @example
+ * ```typescript
+ * const diagnostics = validateQuery(bucket('exchange').select('name').where('is_alchable', '>', true));
+ * // [{ code: 'INVALID_OPERATOR', severity: 'error', path: 'where[0][0]',
+ * //    message: "Operator '>' cannot be used on BOOLEAN field 'is_alchable'", clause: { ... } }]
+ * ```
+ */
+export function validateQuery(query: BucketQueryAst | { toJSON(): BucketQueryAst }): QueryDiagnostic[] {
+    const ast = 'toJSON' in query ? query.toJSON() : query;
+    assertBucketQueryAst(ast);
+    return new QueryLinter(ast).lint();
+}
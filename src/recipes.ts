@@ -0,0 +1,284 @@
+/**
+ * An in-memory production graph built from the `recipe` bucket.
+ *
+ * Each `recipe` row describes one way of making an item: the materials it
+ * consumes (`production_json.materials`, falling back to `uses_material`),
+ * the tools and facilities it needs, and the skills involved.
+ * {@link fetchRecipeGraph} loads the rows and {@link RecipeGraph} links
+ * items to the recipes that produce them and the recipes that use them, so
+ * material trees can be expanded down to raw materials.
+ *
+ * @module recipes
+ */
+
+import { BucketClient } from './client.js';
+import type { BucketExecutor } from './client.js';
+import { decodeRows } from './decoders.js';
+import type { FieldDecodeFailure, RecipeProductionJson } from './decoders.js';
+import { RecipeCycleError } from './errors.js';
+import { bucket } from './query-builder.js';
+
+/**
+ * An item and how many of it a recipe consumes or produces.
+ */
+export interface RecipeItem {
+    name: string;
+    quantity: number;
+}
+
+/**
+ * A skill requirement of a recipe. Level and experience are `undefined`
+ * when the recipe has no `production_json`.
+ */
+export interface RecipeSkill {
+    name: string;
+    level: number | undefined;
+    experience: number | undefined;
+}
+
+/**
+ * One way of making an item, parsed from a `recipe` row.
+ */
+export interface CraftingRecipe {
+    /** The page the recipe is on. */
+    page: string;
+    output: RecipeItem;
+    materials: RecipeItem[];
+    tools: string[];
+    facilities: string[];
+    skills: RecipeSkill[];
+    members: boolean | null;
+    /** Game ticks per action, when known. */
+    ticks: number | undefined;
+}
+
+/**
+ * A node of a material tree: an item, how many are needed, and the recipe
+ * chosen to make it. Raw materials have no recipe and no inputs.
+ */
+export interface MaterialNode {
+    item: string;
+    quantity: number;
+    recipe: CraftingRecipe | undefined;
+    inputs: MaterialNode[];
+}
+
+/**
+ * Options for {@link RecipeGraph.materialTree} and {@link RecipeGraph.rawMaterials}.
+ */
+export interface MaterialTreeOptions {
+    /**
+     * Picks the recipe used to make an item from those that produce it.
+     * Return `undefined` to treat the item as raw. Defaults to the first recipe.
+     */
+    choose?: (recipes: readonly CraftingRecipe[], item: string) => CraftingRecipe | undefined;
+}
+
+/**
+ * Options for {@link fetchRecipeGraph}.
+ */
+export interface RecipeGraphOptions {
+    /** The executor to send the queries through. Defaults to a new {@link BucketClient}. */
+    executor?: BucketExecutor;
+}
+
+/** Reads a wiki number such as `'12.5'` or `'1,000'`, or `undefined` when there is none. */
+function toNumber(value: string | number | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = typeof value === 'number' ? value : Number.parseFloat(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parses a `recipe` row into a {@link CraftingRecipe}. `production_json`
+ * supplies quantities and skill levels; without it the `uses_*` lists are
+ * used with a quantity of 1.
+ */
+export function toCraftingRecipe(row: {
+    page_name: string;
+    uses_material: string[];
+    uses_tool: string[];
+    uses_facility: string[];
+    uses_skill: string[];
+    is_members_only: boolean | null;
+    production_json: RecipeProductionJson | null;
+}): CraftingRecipe {
+    const json = row.production_json;
+    const item = (entry: { name: string; quantity: string }): RecipeItem => ({
+        name: entry.name,
+        quantity: toNumber(entry.quantity) ?? 1,
+    });
+    const list = (text: string | undefined, fallback: string[]): string[] =>
+        text === undefined
+            ? fallback
+            : text
+                  .split(',')
+                  .map((part) => part.trim())
+                  .filter((part) => part !== '');
+
+    return {
+        page: row.page_name,
+        output: json?.output ? item(json.output) : { name: row.page_name, quantity: 1 },
+        materials: json?.materials?.map(item) ?? row.uses_material.map((name) => ({ name, quantity: 1 })),
+        tools: list(json?.tools, row.uses_tool),
+        facilities: list(json?.facilities, row.uses_facility),
+        skills:
+            json?.skills?.map((skill) => ({
+                name: skill.name,
+                level: toNumber(skill.level),
+                experience: toNumber(skill.experience),
+            })) ?? row.uses_skill.map((name) => ({ name, level: undefined, experience: undefined })),
+        members: row.is_members_only,
+        ticks: toNumber(json?.ticks),
+    };
+}
+
+/**
+ * Links items to the recipes that produce and use them.
+ *
+ * @example
+ * ```typescript
+ * const { graph } = await fetchRecipeGraph();
+ * graph.rawMaterials('Rune platebody'); // Map { 'Runite ore' => 5, 'Coal' => 40 }
+ * graph.recipesUsing('Hammer').length;
+ * ```
+ */
+export class RecipeGraph {
+    private readonly producers = new Map<string, CraftingRecipe[]>();
+    private readonly consumers = new Map<string, CraftingRecipe[]>();
+
+    /**
+     * @param recipes - The recipes to link, e.g. from {@link toCraftingRecipe}.
+     */
+    constructor(readonly recipes: readonly CraftingRecipe[]) {
+        const add = (index: Map<string, CraftingRecipe[]>, item: string, recipe: CraftingRecipe): void => {
+            const list = index.get(item);
+            if (!list) {
+                index.set(item, [recipe]);
+            } else if (!list.includes(recipe)) {
+                list.push(recipe);
+            }
+        };
+        for (const recipe of recipes) {
+            add(this.producers, recipe.output.name, recipe);
+            for (const used of [...recipe.materials.map((m) => m.name), ...recipe.tools, ...recipe.facilities]) {
+                add(this.consumers, used, recipe);
+            }
+        }
+    }
+
+    /** The recipes that produce an item. */
+    recipesFor(item: string): readonly CraftingRecipe[] {
+        return this.producers.get(item) ?? [];
+    }
+
+    /** The recipes that use an item as a material, tool or facility. */
+    recipesUsing(item: string): readonly CraftingRecipe[] {
+        return this.consumers.get(item) ?? [];
+    }
+
+    /**
+     * Expands an item into the tree of materials needed to make `quantity`
+     * of it, recursing until items without a recipe are reached. Quantities
+     * are scaled by each recipe's output quantity and are not rounded; a
+     * recipe whose output quantity is not positive counts as making one.
+     *
+     * @param item - The item to make.
+     * @param quantity - How many to make. Defaults to 1.
+     * @param options - Which recipe to use for each item.
+     * @throws {RecipeCycleError} If an item is needed to make itself.
+     */
+    materialTree(item: string, quantity = 1, options: MaterialTreeOptions = {}): MaterialNode {
+        const choose = options.choose ?? ((recipes) => recipes[0]);
+        const expand = (name: string, needed: number, path: string[]): MaterialNode => {
+            if (path.includes(name)) {
+                throw new RecipeCycleError([...path.slice(path.indexOf(name)), name]);
+            }
+            const recipes = this.recipesFor(name);
+            const recipe = recipes.length === 0 ? undefined : choose(recipes, name);
+            if (!recipe) return { item: name, quantity: needed, recipe: undefined, inputs: [] };
+
+            const crafts = needed / (recipe.output.quantity > 0 ? recipe.output.quantity : 1);
+            return {
+                item: name,
+                quantity: needed,
+                recipe,
+                inputs: recipe.materials.map((m) => expand(m.name, m.quantity * crafts, [...path, name])),
+            };
+        };
+        return expand(item, quantity, []);
+    }
+
+    /**
+     * The raw materials (items without a chosen recipe) needed to make
+     * `quantity` of an item, summed across the tree.
+     *
+     * @param item - The item to make.
+     * @param quantity - How many to make. Defaults to 1.
+     * @param options - Which recipe to use for each item.
+     * @throws {RecipeCycleError} If an item is needed to make itself.
+     */
+    rawMaterials(item: string, quantity = 1, options: MaterialTreeOptions = {}): Map<string, number> {
+        const totals = new Map<string, number>();
+        const collect = (node: MaterialNode): void => {
+            if (!node.recipe) {
+                totals.set(node.item, (totals.get(node.item) ?? 0) + node.quantity);
+            }
+            node.inputs.forEach(collect);
+        };
+        collect(this.materialTree(item, quantity, options));
+        return totals;
+    }
+
+    /**
+     * Finds loops in the graph, where an item is (indirectly) a material of
+     * one of its own recipes. Each cycle starts and ends with the same item.
+     */
+    findCycles(): string[][] {
+        const cycles: string[][] = [];
+        const done = new Set<string>();
+        const visit = (item: string, path: string[]): void => {
+            const seen = path.indexOf(item);
+            if (seen !== -1) {
+                cycles.push([...path.slice(seen), item]);
+                return;
+            }
+            if (done.has(item)) return;
+            for (const recipe of this.recipesFor(item)) {
+                for (const material of recipe.materials) {
+                    visit(material.name, [...path, item]);
+                }
+            }
+            done.add(item);
+        };
+        for (const item of this.producers.keys()) {
+            visit(item, []);
+        }
+        return cycles;
+    }
+}
+
+/**
+ * Loads every `recipe` row and links them into a {@link RecipeGraph}.
+ * `production_json` values that cannot be decoded are returned in
+ * `failures`; those recipes fall back to their `uses_*` lists.
+ *
+ * @param options - The executor.
+ * @throws {BucketApiError} If the wiki rejects the query.
+ * @throws {BucketHttpError} If a request fails.
+ *
+ * @example
+ * ```typescript
+ * const { graph } = await fetchRecipeGraph({ executor: new CachingExecutor(new BucketClient()) });
+ * const tree = graph.materialTree('Super combat potion(4)');
+ * ```
+ */
+export async function fetchRecipeGraph(
+    options: RecipeGraphOptions = {},
+): Promise<{ graph: RecipeGraph; failures: FieldDecodeFailure[] }> {
+    const rows = await bucket('recipe')
+        .select('uses_material', 'uses_tool', 'uses_facility', 'uses_skill', 'is_members_only', 'production_json')
+        .fetchAll(options.executor ?? new BucketClient());
+    const { rows: decoded, failures } = decodeRows(rows, { bucket: 'recipe' });
+    return { graph: new RecipeGraph(decoded.map(toCraftingRecipe)), failures };
+}
@@ -0,0 +1,278 @@
+/**
+ * Rate limiting, concurrency control and retries for bucket API requests.
+ *
+ * {@link withRequestPolicy} decorates a {@link BucketTransport}, so the policy
+ * sits underneath any {@link BucketClient} (and therefore underneath caching,
+ * pagination and everything else built on the executor layer):
+ *
+ * - a concurrency limit caps how many requests are in flight at once;
+ * - a token bucket caps the sustained request rate while allowing bursts;
+ * - 429 and 5xx responses (and network failures) are retried with
+ *   exponential backoff and full jitter, honouring `Retry-After`.
+ *
+ * @module request-policy
+ */
+
+import type { BucketHttpRequest, BucketHttpResponse, BucketTransport } from './client.js';
+
+/** Defaults used by {@link withRequestPolicy}. */
+export const REQUEST_POLICY_DEFAULTS = {
+    /** Maximum number of requests in flight at once. */
+    CONCURRENCY: 2,
+    /** Retries after the first attempt before giving up. */
+    MAX_RETRIES: 3,
+    /** Backoff ceiling for the first retry, in milliseconds. Doubles on each retry. */
+    BASE_DELAY_MS: 500,
+    /** Upper bound for a single backoff delay, in milliseconds. */
+    MAX_DELAY_MS: 30_000,
+};
+
+/**
+ * Token-bucket settings: `requestsPerSecond` tokens are added every second,
+ * up to `burst` tokens. Each attempt consumes one token.
+ */
+export interface RateLimitOptions {
+    requestsPerSecond: number;
+    /** Bucket capacity, at least 1. Defaults to `requestsPerSecond`, or 1 below one request per second. */
+    burst?: number;
+}
+
+/**
+ * Passed to {@link RequestPolicyHooks.onAttempt} before each attempt is sent.
+ */
+export interface RequestAttemptEvent {
+    /** 1-based attempt number. */
+    attempt: number;
+    request: BucketHttpRequest;
+}
+
+/**
+ * Passed to {@link RequestPolicyHooks.onAttemptComplete} after each attempt.
+ * Exactly one of `response` and `error` is set.
+ */
+export interface RequestAttemptResult extends RequestAttemptEvent {
+    response?: BucketHttpResponse;
+    error?: unknown;
+    /** Wall-clock duration of the attempt, in milliseconds. */
+    durationMs: number;
+}
+
+/**
+ * Passed to {@link RequestPolicyHooks.onRetry} when a failed attempt is about to be retried.
+ */
+export interface RequestRetryEvent extends RequestAttemptResult {
+    /** How long the policy waits before the next attempt, in milliseconds. */
+    delayMs: number;
+}
+
+/**
+ * Observability hooks, called synchronously at each stage of an attempt.
+ */
+export interface RequestPolicyHooks {
+    onAttempt?: (event: RequestAttemptEvent) => void;
+    onAttemptComplete?: (event: RequestAttemptResult) => void;
+    onRetry?: (event: RequestRetryEvent) => void;
+}
+
+/**
+ * Configuration for {@link withRequestPolicy}.
+ */
+export interface RequestPolicyOptions {
+    /** Maximum requests in flight. Defaults to `REQUEST_POLICY_DEFAULTS.CONCURRENCY`. */
+    concurrency?: number;
+    /** Token-bucket rate limit. Unlimited when omitted. */
+    rateLimit?: RateLimitOptions;
+    /** Retries after the first attempt. Defaults to `REQUEST_POLICY_DEFAULTS.MAX_RETRIES`. */
+    maxRetries?: number;
+    /** First backoff ceiling in milliseconds. Defaults to `REQUEST_POLICY_DEFAULTS.BASE_DELAY_MS`. */
+    baseDelayMs?: number;
+    /** Backoff cap in milliseconds, also applied to `Retry-After`. Defaults to `REQUEST_POLICY_DEFAULTS.MAX_DELAY_MS`. */
+    maxDelayMs?: number;
+    /** Decides whether a status is retryable. Defaults to 429 and any 5xx. */
+    shouldRetry?: (status: number) => boolean;
+    hooks?: RequestPolicyHooks;
+    /** Clock in epoch milliseconds. Defaults to `Date.now`. */
+    now?: () => number;
+    /** Waits for the given milliseconds. Defaults to `setTimeout`. */
+    sleep?: (ms: number) => Promise<void>;
+    /** Random source in `[0, 1)` used for jitter. Defaults to `Math.random`. */
+    random?: () => number;
+}
+
+/** Retries rate-limit and server-side failures. */
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns `undefined` when the header is missing or unparseable.
+ */
+export function parseRetryAfter(value: string | undefined, now: number): number | undefined {
+    if (value === undefined || value.trim() === '') return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Counting semaphore that hands out slots in FIFO order.
+ */
+class ConcurrencyLimiter {
+    private active = 0;
+    private readonly waiting: Array<() => void> = [];
+
+    constructor(private readonly limit: number) {}
+
+    async acquire(): Promise<() => void> {
+        if (this.active >= this.limit) {
+            await new Promise<void>((resolve) => this.waiting.push(resolve));
+        } else {
+            this.active++;
+        }
+        return () => {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        };
+    }
+}
+
+/**
+ * Token bucket that refills continuously. Callers are served one at a time,
+ * so waiting callers cannot starve each other.
+ */
+class TokenBucket {
+    private tokens: number;
+    private lastRefill: number;
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly ratePerMs: number,
+        private readonly capacity: number,
+        private readonly now: () => number,
+        private readonly sleep: (ms: number) => Promise<void>,
+    ) {
+        this.tokens = capacity;
+        this.lastRefill = now();
+    }
+
+    take(): Promise<void> {
+        this.queue = this.queue.then(async () => {
+            this.refill();
+            if (this.tokens < 1) {
+                await this.sleep((1 - this.tokens) / this.ratePerMs);
+                this.refill();
+            }
+            this.tokens -= 1;
+        });
+        return this.queue;
+    }
+
+    private refill(): void {
+        const now = this.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+        this.lastRefill = now;
+    }
+}
+
+/**
+ * Wraps a transport with concurrency limiting, rate limiting and retries.
+ *
+ * When every retry is exhausted, the last response is returned (so the
+ * client reports it as a `BucketHttpError`) or the last network error is
+ * rethrown.
+ *
+ * @param transport - The transport that performs each attempt.
+ * @param options - Limits, backoff settings and hooks.
+ *
+ * @example
+ * ```typescript
+ * const client = new BucketClient({
+ *     transport: withRequestPolicy(fetchTransport, {
+ *         concurrency: 4,
+ *         rateLimit: { requestsPerSecond: 5, burst: 10 },
+ *         maxRetries: 5,
+ *         hooks: {
+ *             onRetry: ({ attempt, delayMs, response }) =>
+ *                 logger.warn(`attempt ${attempt} got ${response?.status}, retrying in ${delayMs}ms`),
+ *         },
+ *     }),
+ * });
+ * ```
+ */
+export function withRequestPolicy(transport: BucketTransport, options: RequestPolicyOptions = {}): BucketTransport {
+    const now = options.now ?? Date.now;
+    const sleep = options.sleep ?? defaultSleep;
+    const random = options.random ?? Math.random;
+    const shouldRetry = options.shouldRetry ?? isRetryableStatus;
+    const maxRetries = options.maxRetries ?? REQUEST_POLICY_DEFAULTS.MAX_RETRIES;
+    const baseDelayMs = options.baseDelayMs ?? REQUEST_POLICY_DEFAULTS.BASE_DELAY_MS;
+    const maxDelayMs = options.maxDelayMs ?? REQUEST_POLICY_DEFAULTS.MAX_DELAY_MS;
+    const hooks = options.hooks ?? {};
+
+    const limiter = new ConcurrencyLimiter(Math.max(1, options.concurrency ?? REQUEST_POLICY_DEFAULTS.CONCURRENCY));
+    const rateLimit = options.rateLimit;
+    const tokens = rateLimit
+        ? new TokenBucket(
+              rateLimit.requestsPerSecond / 1000,
+              Math.max(1, rateLimit.burst ?? rateLimit.requestsPerSecond),
+              now,
+              sleep,
+          )
+        : undefined;
+
+    return async (request) => {
+        let lastResult: RequestAttemptResult | undefined;
+
+        for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+            await tokens?.take();
+            const release = await limiter.acquire();
+            let result: RequestAttemptResult;
+            try {
+                hooks.onAttempt?.({ attempt, request });
+                const startedAt = now();
+                try {
+                    const response = await transport(request);
+                    result = { attempt, request, response, durationMs: now() - startedAt };
+                } catch (error) {
+                    result = { attempt, request, error, durationMs: now() - startedAt };
+                }
+            } finally {
+                release();
+            }
+            hooks.onAttemptComplete?.(result);
+            lastResult = result;
+
+            const retryable = result.response ? shouldRetry(result.response.status) : true;
+            if (!retryable || attempt > maxRetries) {
+                break;
+            }
+
+            const backoffCeiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            const retryAfter = parseRetryAfter(result.response?.headers['retry-after'], now());
+            const delayMs =
+                retryAfter === undefined ? Math.floor(random() * backoffCeiling) : Math.min(retryAfter, maxDelayMs);
+
+            hooks.onRetry?.({ ...result, delayMs });
+            await sleep(delayMs);
+        }
+
+        if (lastResult?.response) {
+            return lastResult.response;
+        }
+        throw lastResult?.error;
+    };
+}
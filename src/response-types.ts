@@ -149,7 +149,7 @@ type LookupField<B extends BucketName, F extends string> = F extends keyof Bucke
  * @example
  * ```typescript
  * type R = SelectResult<'storeline', { exchange: 'exchange' }, 'sold_by' | 'exchange.value'>;
- * // { sold_by: string; 'exchange.value': number }
+ * // { sold_by: string | null; 'exchange.value': number | null }
  * ```
  */
 export type SelectResult<
@@ -174,6 +174,153 @@ type ExpandAliasWildcards<
 /** Converts a union type to an intersection type. */
 type UnionToIntersection<U> = (U extends unknown ? (k: U) => void : never) extends (k: infer I) => void ? I : never;
 
+/**
+ * Marks the given fields of a result shape as non-null.
+ *
+ * Generated bucket fields are nullable because the wiki returns `null` for
+ * missing values. `.whereNotNull()` applies this to the accumulated result
+ * type so the filtered field no longer needs a null check. Fields that are
+ * not part of `T` are ignored.
+ *
+ * @example
+ * ```typescript
+ * type R = NonNullFields<{ weight: number | null; quest: string | null }, 'weight'>;
+ * // { weight: number; quest: string | null }
+ * ```
+ */
+export type NonNullFields<T, F extends string> = T & { [K in F & keyof T]: NonNullable<T[K]> };
+
+/**
+ * Narrows the given fields of a result shape to the value type `V`.
+ *
+ * `.where(field, value)` and `.whereIn(field, values)` apply this with the
+ * literal value (or union of values) they filter on. A field is only
+ * narrowed when `V` is assignable to its non-null type, so equality on a
+ * repeated field (which matches any element) leaves the array type alone.
+ *
+ * @example
+ * ```typescript
+ * type R = NarrowFields<{ name: string | null; value: number | null }, 'name', 'Abyssal whip'>;
+ * // { name: 'Abyssal whip'; value: number | null }
+ * ```
+ */
+export type NarrowFields<T, F extends string, V> = T & {
+    [K in F & keyof T]: [V] extends [NonNullable<T[K]>] ? V : T[K];
+};
+
+/**
+ * The keys of `T` whose values are numbers (or null). Used to restrict the
+ * numeric aggregates on {@link BucketResponse} (`sum`, `avg`, `min`, `max`).
+ *
+ * @example
+ * ```typescript
+ * type N = NumericFields<{ name: string | null; value: number | null; item_id: string[] }>;
+ * // 'value'
+ * ```
+ */
+export type NumericFields<T> = {
+    [K in keyof T]-?: [NonNullable<T[K]>] extends [never] ? never : NonNullable<T[K]> extends number ? K : never;
+}[keyof T] &
+    string;
+
+/**
+ * The keys of `T` whose values are scalars (or null), so they can be used
+ * as grouping keys by `groupBy`, `countBy` and `distinct`. Repeated
+ * (array) fields are excluded because arrays compare by reference.
+ *
+ * @example
+ * ```typescript
+ * type G = GroupableFields<{ name: string | null; value: number | null; item_id: string[] }>;
+ * // 'name' | 'value'
+ * ```
+ */
+export type GroupableFields<T> = {
+    [K in keyof T]-?: [NonNullable<T[K]>] extends [never]
+        ? never
+        : NonNullable<T[K]> extends string | number | boolean
+          ? K
+          : never;
+}[keyof T] &
+    string;
+
+/**
+ * Reshapes a result row so that joined fields are grouped under their
+ * prefix: `{ item_name, 'ex.value', 'ex.limit' }` becomes
+ * `{ item_name, ex: { value, limit } }`. Keys are split at the first dot,
+ * so both aliases and unaliased `bucket.field` references nest. This is
+ * the row type of {@link BucketResponse.nested}.
+ *
+ * @example
+ * ```typescript
+ * type R = NestedRow<{ item_name: string | null; 'ex.value': number | null; 'ex.limit': number | null }>;
+ * // { item_name: string | null; ex: { value: number | null; limit: number | null } }
+ * ```
+ */
+export type NestedRow<T> = {
+    [K in keyof T as K extends `${infer Prefix}.${string}` ? Prefix : K]: K extends `${infer Prefix}.${string}`
+        ? { [F in keyof T as F extends `${Prefix}.${infer Field}` ? Field : never]: T[F] }
+        : T[K];
+};
+
+/**
+ * The join prefixes used in a row type's `alias.field` keys.
+ *
+ * @example
+ * ```typescript
+ * type A = JoinAliases<{ item_name: string | null; 'shops.sold_by': string | null; 'ex.value': number | null }>;
+ * // 'shops' | 'ex'
+ * ```
+ */
+export type JoinAliases<T> = {
+    [K in keyof T]-?: K extends `${infer Prefix}.${string}` ? Prefix : never;
+}[keyof T];
+
+/**
+ * Reshapes a row type for a one-to-many join: the `A.field` keys are
+ * replaced by an `A` array of `{ field }` objects, one per joined row.
+ * This is the row type of {@link BucketResponse.collapse}.
+ *
+ * @example
+ * ```typescript
+ * type R = CollapsedRow<{ item_name: string | null; 'shops.sold_by': string | null }, 'shops'>;
+ * // { item_name: string | null; shops: { sold_by: string | null }[] }
+ * ```
+ */
+export type CollapsedRow<T, A extends string> = {
+    [K in keyof T as K extends `${A}.${string}` ? A : K]: K extends `${A}.${string}`
+        ? { [F in keyof T as F extends `${A}.${infer Field}` ? Field : never]: T[F] }[]
+        : T[K];
+};
+
+/**
+ * The buckets whose schema has a `default_version` field: infoboxes whose
+ * pages can hold several versions of the same thing, one row each.
+ * `.defaultVersionOnly()` is only available on these.
+ */
+export type VersionedBucket = {
+    [B in BucketName]: 'default_version' extends keyof BucketRegistry[B] ? B : never;
+}[BucketName];
+
+/**
+ * The buckets whose schema has a `version_anchor` field. `.version(anchor)`
+ * is only available on these.
+ */
+export type AnchoredBucket = {
+    [B in BucketName]: 'version_anchor' extends keyof BucketRegistry[B] ? B : never;
+}[BucketName];
+
+/**
+ * The versions of one page, as grouped by {@link BucketResponse.byVersion}.
+ */
+export interface VersionGroup<T> {
+    /** The page the versions are on. */
+    page: string;
+    /** The row marked `default_version`, or the page's first row when none is. */
+    defaultVersion: T;
+    /** Every row of the page, keyed by `version_anchor` when selected, otherwise by `page_name_sub`. */
+    versions: Map<string, T>;
+}
+
 /**
  * Extracts the inferred result type from a `BucketQueryBuilder` instance.
  *
@@ -183,11 +330,11 @@ type UnionToIntersection<U> = (U extends unknown ? (k: U) => void : never) exten
  * ```typescript
  * const query = bucket('exchange').select('id', 'name', 'value');
  * type Row = InferBucketResult<typeof query>;
- * // Row = { id: number; name: string; value: number; page_name: string; page_name_sub: string }
+ * // Row = { id: number | null; name: string | null; value: number | null; page_name: string; page_name_sub: string }
  *
  * const raw = await fetch(query.toUrl()).then(r => r.json());
  * const response = new BucketResponse<Row>(raw);
- * response.first()?.name; // ✅ autocomplete, typed as string
+ * response.first()?.name; // ✅ autocomplete, typed as string | null
  * ```
  */
 export type InferBucketResult<T> = T extends { readonly __resultType: infer R } ? R : unknown;
@@ -0,0 +1,229 @@
+/**
+ * Shop prices from the `storeline` bucket.
+ *
+ * `storeline` stores every number as wiki text (`'1,000'`, `'∞'`, `'N/A'`).
+ * {@link toShopListing} normalises a row into numbers, {@link bulkPrice}
+ * applies the stock-based price change to price a purchase of several units,
+ * and {@link cheapestStore} compares listings in one currency.
+ *
+ * Prices follow the wiki's naming: `sellPrice` is what the shop sells for
+ * (what a player pays) and `buyPrice` is what it buys for.
+ *
+ * @module shops
+ */
+
+import { BucketClient } from './client.js';
+import type { BucketExecutor } from './client.js';
+import { bucket } from './query-builder.js';
+
+/**
+ * A `storeline` row with its numeric fields parsed. Fields the wiki leaves
+ * empty or non-numeric are `undefined`.
+ */
+export interface ShopListing {
+    shop: string;
+    item: string;
+    /** The currency prices are in, e.g. `'Coins'` or `'Tokkul'`. Defaults to `'Coins'`. */
+    currency: string;
+    /** The price the shop sells one item for at its default stock. */
+    sellPrice: number | undefined;
+    /** The price the shop buys one item for at its default stock. */
+    buyPrice: number | undefined;
+    /** The default stock. `Infinity` for unlimited stock. */
+    stock: number | undefined;
+    /** How much the price multiplier changes per item of stock, in thousandths of the value. */
+    delta: number;
+    /** The sell price multiplier at default stock, in thousandths of the value (1000 = 100%). */
+    sellMultiplier: number;
+    /** The buy price multiplier at default stock, in thousandths of the value. */
+    buyMultiplier: number | undefined;
+    /** The wiki's `restock_time`, as a number. */
+    restockTime: number | undefined;
+    /**
+     * The item's value, which the multipliers apply to: `exchange.value` when
+     * the item is on the exchange, otherwise derived from the sell price.
+     */
+    value: number | undefined;
+}
+
+/**
+ * The cheapest listing for a purchase and what it costs.
+ */
+export interface StorePrice {
+    listing: ShopListing;
+    /** The total price of the purchase. */
+    total: number;
+}
+
+/**
+ * Options for {@link cheapestStore}.
+ */
+export interface CheapestStoreOptions {
+    /** How many units to buy. Defaults to 1. */
+    quantity?: number;
+    /** Only compare listings in this currency. Defaults to `'Coins'`. */
+    currency?: string;
+}
+
+/**
+ * Options for {@link fetchShopListings}.
+ */
+export interface ShopOptions {
+    /** The executor to send the query through. Defaults to a new {@link BucketClient}. */
+    executor?: BucketExecutor;
+}
+
+/** Reads a wiki number such as `'1,000'`, treating `'∞'`/`'inf'` as `Infinity`. */
+function parseShopNumber(text: string | null): number | undefined {
+    if (text === null) return undefined;
+    const normalised = text.replace(/,/g, '').trim().toLowerCase();
+    if (normalised === '∞' || normalised === 'inf' || normalised === 'infinite') return Infinity;
+    const value = Number.parseFloat(normalised);
+    return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Normalises a `storeline` row, optionally joined to `exchange.value`.
+ * Returns `undefined` for rows without a shop or item.
+ */
+export function toShopListing(row: {
+    sold_by: string | null;
+    sold_item: string | null;
+    store_sell_price: string | null;
+    store_buy_price: string | null;
+    store_currency: string | null;
+    store_delta: string | null;
+    store_stock: string | null;
+    store_sell_multiplier: string | null;
+    store_buy_multiplier: string | null;
+    restock_time: string | null;
+    'exchange.value'?: number | null;
+}): ShopListing | undefined {
+    if (row.sold_by === null || row.sold_item === null) return undefined;
+
+    const sellPrice = parseShopNumber(row.store_sell_price);
+    const sellMultiplier = parseShopNumber(row.store_sell_multiplier) ?? 1000;
+    const value = row['exchange.value'] ?? (sellPrice === undefined ? undefined : (sellPrice * 1000) / sellMultiplier);
+
+    return {
+        shop: row.sold_by,
+        item: row.sold_item,
+        currency: row.store_currency?.trim() || 'Coins',
+        sellPrice,
+        buyPrice: parseShopNumber(row.store_buy_price),
+        stock: parseShopNumber(row.store_stock),
+        delta: parseShopNumber(row.store_delta) ?? 0,
+        sellMultiplier,
+        buyMultiplier: parseShopNumber(row.store_buy_multiplier),
+        restockTime: parseShopNumber(row.restock_time),
+        value,
+    };
+}
+
+/**
+ * The total price of buying `quantity` units from a shop at its default stock.
+ *
+ * Each unit bought lowers the stock by one, and the sell multiplier rises by
+ * `delta` for every item below the default stock, so unit `k` (from 0) costs
+ * `floor(value × (sellMultiplier + delta × k) / 1000)`. Returns `undefined`
+ * when the price is unknown or the shop does not stock that many units.
+ *
+ * @param listing - The listing to buy from.
+ * @param quantity - How many units to buy.
+ *
+ * @example
+ * ```typescript
+ * // value 100, sellMultiplier 1000, delta 30: 100 + 103 + 106
+ * bulkPrice(listing, 3); // 309
+ * ```
+ */
+export function bulkPrice(listing: ShopListing, quantity: number): number | undefined {
+    const { value, sellMultiplier, delta } = listing;
+    if (value === undefined || (listing.stock !== undefined && quantity > listing.stock)) return undefined;
+
+    const units = Math.max(0, Math.ceil(quantity));
+    const unitPrice = (k: number): number => Math.floor((value * (sellMultiplier + delta * k)) / 1000);
+    // Over `period` units the price rises by a whole amount, so unit `period × q + r`
+    // costs `unitPrice(r) + rise × q` and each residue `r` sums as an arithmetic series.
+    const period = [1000, sellMultiplier].find((p) => isWhole((value * delta * p) / 1000)) ?? units;
+    const rise = Math.round((value * delta * period) / 1000);
+
+    let total = 0;
+    for (let r = 0; r < Math.min(period, units); r++) {
+        const count = Math.floor((units - 1 - r) / period) + 1;
+        total += count * unitPrice(r) + (rise * count * (count - 1)) / 2;
+    }
+    return total;
+}
+
+/** Whether `n` is a whole number, allowing for floating-point error. */
+function isWhole(n: number): boolean {
+    return Number.isFinite(n) && Math.abs(n - Math.round(n)) < 1e-9;
+}
+
+/**
+ * Picks the listing with the lowest {@link bulkPrice} for a purchase, among
+ * listings in one currency. Returns `undefined` when no listing can supply it.
+ *
+ * @param listings - The listings to compare, e.g. from {@link fetchShopListings}.
+ * @param options - The quantity and currency.
+ */
+export function cheapestStore(
+    listings: readonly ShopListing[],
+    options: CheapestStoreOptions = {},
+): StorePrice | undefined {
+    const quantity = options.quantity ?? 1;
+    const currency = options.currency ?? 'Coins';
+    let best: StorePrice | undefined;
+
+    for (const listing of listings) {
+        if (listing.currency !== currency) continue;
+        const total = bulkPrice(listing, quantity);
+        if (total !== undefined && (best === undefined || total < best.total)) {
+            best = { listing, total };
+        }
+    }
+    return best;
+}
+
+/**
+ * Fetches every shop that sells an item, with prices normalised.
+ *
+ * @param item - The item's name, e.g. `'Feather'`.
+ * @param options - The executor.
+ * @throws {BucketApiError} If the wiki rejects the query.
+ * @throws {BucketHttpError} If a request fails.
+ *
+ * @example
+ * ```typescript
+ * const listings = await fetchShopListings('Feather');
+ * const best = cheapestStore(listings, { quantity: 1000 });
+ * console.log(`${best?.listing.shop ?? 'nowhere'}: ${String(best?.total)} coins`);
+ * ```
+ */
+export async function fetchShopListings(item: string, options: ShopOptions = {}): Promise<ShopListing[]> {
+    const rows = await bucket('storeline')
+        .join('exchange', 'sold_item', 'name')
+        .select(
+            'sold_by',
+            'sold_item',
+            'store_sell_price',
+            'store_buy_price',
+            'store_currency',
+            'store_delta',
+            'store_stock',
+            'store_sell_multiplier',
+            'store_buy_multiplier',
+            'restock_time',
+            'exchange.value',
+        )
+        .where('sold_item', item)
+        .fetchAll(options.executor ?? new BucketClient());
+
+    const listings: ShopListing[] = [];
+    for (const row of rows) {
+        const listing = toShopListing(row);
+        if (listing) listings.push(listing);
+    }
+    return listings;
+}
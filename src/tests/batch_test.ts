@@ -0,0 +1,147 @@
+import { fetchByKeys } from '../batch.js';
+import { bucket } from '../query-builder.js';
+import { stubExecutor } from './helpers/stub-executor.js';
+import type { StubExecutor } from './helpers/stub-executor.js';
+
+const ITEMS = [
+    { page_name: 'Abyssal whip', page_name_sub: '', id: 4151, name: 'Abyssal whip', value: 120001 },
+    { page_name: 'Coins', page_name_sub: '', id: 995, name: 'Coins', value: 1 },
+    { page_name: 'Bones', page_name_sub: '', id: 526, name: 'Bones', value: 1 },
+];
+
+const NPCS = [
+    { page_name: 'Goblin', page_name_sub: '', id: ['655', '3029'] },
+    { page_name: 'Goblin', page_name_sub: 'Other', id: ['3029'] },
+];
+
+/** Answers with the rows whose id appears in the printed query, after an optional delay. */
+function executor(delays: number[] = []): StubExecutor & { peak: number } {
+    let running = 0;
+    const fake = Object.assign(
+        stubExecutor(async (lua) => {
+            running++;
+            fake.peak = Math.max(fake.peak, running);
+            await new Promise((resolve) => setTimeout(resolve, delays[fake.calls.length - 1] ?? 0));
+            running--;
+
+            const rows = lua.startsWith("bucket('npc_id')") ? NPCS : ITEMS;
+            return rows.filter((row) =>
+                (Array.isArray(row.id) ? row.id : [row.id]).some((id) =>
+                    lua.includes(typeof id === 'number' ? `'id', ${String(id)} }` : `'id', '${id}' }`),
+                ),
+            );
+        }),
+        { peak: 0 },
+    );
+    return fake;
+}
+
+describe('fetchByKeys', () => {
+    test('maps every key to its rows in input order', async () => {
+        const fake = executor();
+        const rows = await fetchByKeys(bucket('exchange').select('id', 'name'), 'id', [995, 4151, 1, 995], {
+            executor: fake,
+        });
+
+        expect(fake.calls).toHaveLength(1);
+        expect(fake.calls[0]).toContain("bucket.Or({ 'id', 995 }, { 'id', 4151 }, { 'id', 1 })");
+        expect([...rows.keys()]).toEqual([995, 4151, 1]);
+        expect(rows.get(4151)?.map((row) => row.name)).toEqual(['Abyssal whip']);
+        expect(rows.get(1)).toEqual([]);
+    });
+
+    test('splits the keys by URL length', async () => {
+        const query = bucket('exchange').select('id', 'name');
+        const one = query.clone().whereIn('id', [4151]).toUrl().length;
+        const fake = executor();
+        const rows = await fetchByKeys(query, 'id', [4151, 995, 526], {
+            executor: fake,
+            maxUrlLength: one + 20,
+        });
+
+        expect(fake.calls.length).toBeGreaterThan(1);
+        fake.calls.forEach((sql) => {
+            expect(sql).toContain("{ 'id', ");
+        });
+        expect([...rows.values()].map((matches) => matches.length)).toEqual([1, 1, 1]);
+    });
+
+    test('fills each batch as far as the limit allows', async () => {
+        const query = bucket('storeline').join('exchange', 'ex', 'sold_item', 'name').select('sold_by', 'ex.value');
+        const keys = ['Bronze axe', 'Iron', 'Rune platebody', "Karil's coif", 'Air rune', 'Dragon scimitar'];
+        const urls: string[] = [];
+        const recording = stubExecutor((_lua, q) => {
+            urls.push(q.toUrl());
+            return [];
+        });
+        const maxUrlLength = query.clone().whereIn('ex.name', keys.slice(0, 3)).urlLength() + 60;
+
+        await fetchByKeys(query, 'ex.name', keys, { executor: recording, maxUrlLength });
+
+        expect(urls.length).toBeGreaterThan(1);
+        expect(urls.length).toBeLessThan(keys.length);
+        urls.forEach((url) => {
+            expect(url.length).toBeLessThanOrEqual(maxUrlLength);
+        });
+    });
+
+    test('gives a key longer than the limit its own batch', async () => {
+        const fake = executor();
+        const rows = await fetchByKeys(bucket('exchange').select('id'), 'id', [4151, 995], {
+            executor: fake,
+            maxUrlLength: 1,
+        });
+
+        expect(fake.calls).toHaveLength(2);
+        expect(rows.get(995)).toHaveLength(1);
+    });
+
+    test('selects the key field when the base does not', async () => {
+        const fake = executor();
+        await fetchByKeys(bucket('exchange').select('value'), 'id', [4151], { executor: fake });
+
+        expect(fake.calls[0]).toContain("select('value', 'id'");
+    });
+
+    test('does not modify the base query', async () => {
+        const base = bucket('exchange').select('name');
+        const before = base.printSQL();
+        await fetchByKeys(base, 'id', [4151], { executor: executor() });
+
+        expect(base.printSQL()).toBe(before);
+    });
+
+    test('matches repeated fields and drops duplicate rows', async () => {
+        const rows = await fetchByKeys(bucket('npc_id').select('id'), 'id', ['3029', '655', 3029], {
+            executor: executor(),
+        });
+
+        expect([...rows.keys()]).toEqual(['3029', '655']);
+        expect(rows.get('3029')?.map((row) => row.page_name_sub)).toEqual(['', 'Other']);
+        expect(rows.get('655')).toHaveLength(1);
+    });
+
+    test.each([
+        { name: 'one at a time by default', concurrency: undefined, peak: 1 },
+        { name: 'several at once', concurrency: 2, peak: 2 },
+    ])('runs batches $name', async ({ concurrency, peak }) => {
+        const fake = executor([20, 5, 5]);
+        const rows = await fetchByKeys(bucket('exchange').select('id'), 'id', [4151, 995, 526], {
+            executor: fake,
+            maxUrlLength: 1,
+            ...(concurrency === undefined ? {} : { concurrency }),
+        });
+
+        expect(fake.peak).toBe(peak);
+        expect([...rows.values()].map((matches) => matches.length)).toEqual([1, 1, 1]);
+    });
+
+    test('sends no query without keys', async () => {
+        const fake = executor();
+
+        await expect(fetchByKeys(bucket('exchange').select('id'), 'id', [], { executor: fake })).resolves.toEqual(
+            new Map(),
+        );
+        expect(fake.calls).toEqual([]);
+    });
+});
@@ -1,6 +1,14 @@
 import { readFileSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import {
+    BucketApiError,
+    LimitExceededApiError,
+    LuaSyntaxApiError,
+    QueryTimeoutApiError,
+    UnknownBucketApiError,
+    UnknownFieldApiError,
+} from '../errors.js';
 import { BucketResponse } from '../types.js';
 import type { BucketApiResponse } from '../types.js';
 
@@ -118,6 +126,295 @@ describe('BucketResponse', () => {
         });
     });
 
+    describe('apiError', () => {
+        const query = "bucket('exchange').select('name').run()";
+
+        test('is undefined for a successful response', () => {
+            expect(new BucketResponse(loadFixture('response_success.json')).apiError).toBeUndefined();
+        });
+
+        test('is what results throws, keeping the query and raw message', () => {
+            const response = new BucketResponse(loadFixture('response_error.json'));
+
+            let thrown: unknown;
+            try {
+                void response.results;
+            } catch (e) {
+                thrown = e;
+            }
+
+            expect(thrown).toBeInstanceOf(UnknownBucketApiError);
+            expect(thrown).toBeInstanceOf(BucketApiError);
+            expect(thrown).toEqual(response.apiError);
+            expect(thrown).toMatchObject({
+                name: 'UnknownBucketApiError',
+                message: "Bucket API Error: Bucket 'invalid_bucket' does not exist",
+                rawMessage: "Bucket 'invalid_bucket' does not exist",
+                bucketQuery: "bucket('invalid_bucket').run()",
+                bucket: 'invalid_bucket',
+                retryable: false,
+            });
+        });
+
+        test.each([
+            {
+                message: "Bucket 'invalid_bucket' does not exist",
+                type: UnknownBucketApiError,
+                props: { bucket: 'invalid_bucket' },
+            },
+            { message: 'Unknown bucket "nope".', type: UnknownBucketApiError, props: { bucket: 'nope' } },
+            {
+                message: "Field 'weight' does not exist in bucket 'exchange'",
+                type: UnknownFieldApiError,
+                props: { field: 'weight' },
+            },
+            {
+                message: 'Unknown field exchange.weight',
+                type: UnknownFieldApiError,
+                props: { field: 'exchange.weight' },
+            },
+            { message: 'Invalid column', type: UnknownFieldApiError, props: { field: undefined } },
+            {
+                message: "Lua error: [string \"query\"]:1: ')' expected near 'run'",
+                type: LuaSyntaxApiError,
+                props: {},
+            },
+            { message: 'syntax error near unexpected symbol', type: LuaSyntaxApiError, props: {} },
+            {
+                message: "Lua error: unexpected symbol near 'max_hit' in .where({ 'max_hit', '>' }).limit(10)",
+                type: LuaSyntaxApiError,
+                props: {},
+            },
+            { message: 'The query timed out', type: QueryTimeoutApiError, props: { retryable: true } },
+            {
+                message: 'Maximum execution time of 10 seconds exceeded',
+                type: QueryTimeoutApiError,
+                props: { retryable: true },
+            },
+            {
+                message: 'Lua error: The time allocated for running scripts has expired.',
+                type: QueryTimeoutApiError,
+                props: { retryable: true },
+            },
+            {
+                message: 'The time allocated for running scripts has expired.',
+                type: QueryTimeoutApiError,
+                props: { retryable: true },
+            },
+            { message: 'Limit exceeds the maximum of 5000', type: LimitExceededApiError, props: {} },
+            { message: 'Too many joins', type: LimitExceededApiError, props: {} },
+            { message: 'Something unexpected happened', type: BucketApiError, props: { retryable: false } },
+        ])('classifies "$message"', ({ message, type, props }) => {
+            const error = new BucketResponse({ bucketQuery: query, error: message }).apiError;
+
+            expect(error?.constructor).toBe(type);
+            expect(error).toMatchObject({ ...props, name: type.name, rawMessage: message, bucketQuery: query });
+        });
+    });
+
+    describe('nested', () => {
+        test('groups dotted keys by their prefix and keeps other fields', () => {
+            const response = new BucketResponse({
+                bucketQuery: "bucket('infobox_item').join('exchange', 'ex', 'item_name', 'name').run()",
+                bucket: [{ item_name: 'Abyssal whip', 'ex.value': 120001, 'ex.limit': null, 'shop.sold_by': 'Bob' }],
+            });
+
+            expect(response.nested()).toEqual([
+                { item_name: 'Abyssal whip', ex: { value: 120001, limit: null }, shop: { sold_by: 'Bob' } },
+            ]);
+        });
+
+        test('splits keys at the first dot only', () => {
+            const response = new BucketResponse({ bucketQuery: '', bucket: [{ 'ex.a.b': 1 }] });
+
+            expect(response.nested()).toEqual([{ ex: { 'a.b': 1 } }]);
+        });
+
+        test('throws on an error response', () => {
+            const response = new BucketResponse(loadFixture('response_error.json'));
+            expect(() => response.nested()).toThrow(UnknownBucketApiError);
+        });
+    });
+
+    describe('collapse', () => {
+        const response = new BucketResponse({
+            bucketQuery: "bucket('infobox_item').join('storeline', 'shops', 'item_name', 'sold_item').run()",
+            bucket: [
+                { item_name: 'Bronze axe', weight: 1, 'shops.sold_by': 'Bob', 'shops.store_sell_price': '16' },
+                { item_name: 'Abyssal whip', weight: 0.453, 'shops.sold_by': null, 'shops.store_sell_price': null },
+                { item_name: 'Bronze axe', weight: 1, 'shops.sold_by': 'Nurmof', 'shops.store_sell_price': null },
+            ],
+        });
+
+        test('groups rows by key in first-seen order', () => {
+            expect(response.collapse('item_name', 'shops')).toEqual([
+                {
+                    item_name: 'Bronze axe',
+                    weight: 1,
+                    shops: [
+                        { sold_by: 'Bob', store_sell_price: '16' },
+                        { sold_by: 'Nurmof', store_sell_price: null },
+                    ],
+                },
+                { item_name: 'Abyssal whip', weight: 0.453, shops: [] },
+            ]);
+        });
+
+        test('throws on an error response', () => {
+            const failed = new BucketResponse(loadFixture('response_error.json'));
+            expect(() => failed.collapse('item_name' as never, 'shops' as never)).toThrow(UnknownBucketApiError);
+        });
+    });
+
+    describe('byVersion', () => {
+        const goblin = { page_name: 'Goblin', default_version: false };
+        const response = new BucketResponse({
+            bucketQuery: "bucket('infobox_monster').run()",
+            bucket: [
+                { ...goblin, page_name_sub: 'Goblin#Level 2', version_anchor: 'Level 2', combat_level: 2 },
+                {
+                    ...goblin,
+                    page_name_sub: 'Goblin#Level 5',
+                    version_anchor: 'Level 5',
+                    combat_level: 5,
+                    default_version: true,
+                },
+                { page_name: 'Imp', page_name_sub: '', version_anchor: null, combat_level: 2, default_version: null },
+            ],
+        });
+
+        test('groups the versions of each page', () => {
+            const groups = response.byVersion();
+
+            expect([...groups.keys()]).toEqual(['Goblin', 'Imp']);
+            expect(groups.get('Goblin')?.defaultVersion.combat_level).toBe(5);
+            expect([...(groups.get('Goblin')?.versions.keys() ?? [])]).toEqual(['Level 2', 'Level 5']);
+        });
+
+        test('falls back to the first row and page_name_sub', () => {
+            const imp = response.byVersion().get('Imp');
+
+            expect(imp?.defaultVersion.combat_level).toBe(2);
+            expect([...(imp?.versions.keys() ?? [])]).toEqual(['']);
+        });
+
+        test('throws on an error response', () => {
+            const failed = new BucketResponse(loadFixture('response_error.json'));
+            expect(() => (failed as BucketResponse<never>).byVersion()).toThrow(UnknownBucketApiError);
+        });
+    });
+
+    describe('aggregates', () => {
+        interface ShopRow {
+            sold_by: string | null;
+            store_sell_price: number | null;
+            members: boolean;
+            item_id: string[];
+        }
+
+        const shops = new BucketResponse<ShopRow>({
+            bucketQuery: "bucket('storeline').select('sold_by', 'store_sell_price', 'members', 'item_id').run()",
+            bucket: [
+                { sold_by: 'Bob', store_sell_price: 10, members: false, item_id: ['1'] },
+                { sold_by: 'Zaff', store_sell_price: 40, members: true, item_id: ['2'] },
+                { sold_by: 'Bob', store_sell_price: null, members: false, item_id: ['3'] },
+                { sold_by: null, store_sell_price: 25, members: true, item_id: ['4'] },
+            ],
+        });
+        const empty = new BucketResponse<ShopRow>(loadFixture<ShopRow>('response_empty.json'));
+        const failed = new BucketResponse<ShopRow>(loadFixture<ShopRow>('response_error.json'));
+
+        test('groupBy groups rows in first-seen order, with null as its own group', () => {
+            const groups = shops.groupBy('sold_by');
+
+            expect([...groups.keys()]).toEqual(['Bob', 'Zaff', null]);
+            expect(groups.get('Bob')?.map((row) => row.item_id)).toEqual([['1'], ['3']]);
+            expect(groups.get(null)).toHaveLength(1);
+        });
+
+        test('countBy counts rows per value', () => {
+            expect([...shops.countBy('members')]).toEqual([
+                [false, 2],
+                [true, 2],
+            ]);
+        });
+
+        test('distinct returns each value once', () => {
+            expect(shops.distinct('sold_by')).toEqual(['Bob', 'Zaff', null]);
+        });
+
+        test.each([
+            { name: 'sum', aggregate: () => shops.sum('store_sell_price'), expected: 75 },
+            { name: 'avg', aggregate: () => shops.avg('store_sell_price'), expected: 25 },
+            { name: 'min', aggregate: () => shops.min('store_sell_price'), expected: 10 },
+            { name: 'max', aggregate: () => shops.max('store_sell_price'), expected: 40 },
+        ])('$name skips nulls', ({ aggregate, expected }) => {
+            expect(aggregate()).toBe(expected);
+        });
+
+        test('numeric aggregates work on fixture rows', () => {
+            const response = new BucketResponse<ExchangeRow>(loadFixture<ExchangeRow>('response_multiple_rows.json'));
+
+            expect(response.sum('value')).toBe(35120001);
+            expect(response.max('id')).toBe(13576);
+        });
+
+        test('min and max handle large responses', () => {
+            const rows = Array.from({ length: 200_000 }, (_, i) => ({ id: i, page_name: '', page_name_sub: '' }));
+            const large = new BucketResponse<{ id: number; page_name: string; page_name_sub: string }>({
+                bucketQuery: 'q',
+                bucket: rows,
+            });
+
+            expect(large.min('id')).toBe(0);
+            expect(large.max('id')).toBe(199_999);
+        });
+
+        test('handle empty responses', () => {
+            expect(empty.groupBy('sold_by').size).toBe(0);
+            expect(empty.countBy('sold_by').size).toBe(0);
+            expect(empty.distinct('sold_by')).toEqual([]);
+            expect(empty.sum('store_sell_price')).toBe(0);
+            expect(empty.avg('store_sell_price')).toBeUndefined();
+            expect(empty.min('store_sell_price')).toBeUndefined();
+            expect(empty.max('store_sell_price')).toBeUndefined();
+        });
+
+        test.each([
+            { name: 'groupBy', aggregate: () => failed.groupBy('sold_by') },
+            { name: 'countBy', aggregate: () => failed.countBy('sold_by') },
+            { name: 'distinct', aggregate: () => failed.distinct('sold_by') },
+            { name: 'sum', aggregate: () => failed.sum('store_sell_price') },
+        ])('$name throws on an error response', ({ aggregate }) => {
+            expect(aggregate).toThrow(UnknownBucketApiError);
+        });
+
+        test('restrict fields by type', () => {
+            const check = (): void => {
+                // @ts-expect-error - sold_by is a string field
+                shops.sum('sold_by');
+                // @ts-expect-error - members is a boolean field
+                shops.avg('members');
+                // @ts-expect-error - item_id is a repeated field
+                shops.groupBy('item_id');
+                // @ts-expect-error - not a field
+                shops.distinct('nope');
+            };
+
+            expect(check).toBeDefined();
+        });
+    });
+
+    describe('toJSON', () => {
+        test('serialises back to the raw API payload', () => {
+            const raw = loadFixture<ExchangeRow>('response_success.json');
+            const response = new BucketResponse<ExchangeRow>(raw);
+
+            expect(response.toJSON()).toBe(raw);
+            expect(JSON.parse(JSON.stringify(response))).toEqual(raw);
+        });
+    });
+
     describe('array field handling', () => {
         test('preserves array-typed fields in response rows', () => {
             const response = new BucketResponse<InfoboxItemRow>(
@@ -0,0 +1,214 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CachingExecutor, FileCacheStore, MemoryCacheStore } from '../cache.js';
+import type { BucketCacheEntry } from '../cache.js';
+import { bucket } from '../query-builder.js';
+import { BucketResponse } from '../types.js';
+import { stubExecutor } from './helpers/stub-executor.js';
+import type { StubExecutor } from './helpers/stub-executor.js';
+
+/**
+ * Executor that answers every query with one row, or with an API error when
+ * the query mentions `invalid`.
+ */
+function countingExecutor(): StubExecutor {
+    const executor = stubExecutor((lua) =>
+        lua.includes('invalid')
+            ? { bucketQuery: lua, error: 'Something went wrong' }
+            : [{ name: 'Abyssal whip', value: executor.calls.length }],
+    );
+    return executor;
+}
+
+function entry(value: number, expiresAt = Number.MAX_SAFE_INTEGER): BucketCacheEntry {
+    return { payload: { bucketQuery: 'q', bucket: [{ value }] }, expiresAt };
+}
+
+describe('CachingExecutor', () => {
+    test('serves a repeated query from the cache', async () => {
+        const inner = countingExecutor();
+        const cached = new CachingExecutor(inner);
+        const query = bucket('exchange').select('name', 'value');
+
+        const first = await cached.execute(query);
+        const second = await cached.execute(query);
+
+        expect(inner.calls).toHaveLength(1);
+        expect(second).toBeInstanceOf(BucketResponse);
+        expect(second.first()?.value).toBe(first.first()?.value);
+    });
+
+    test('gives every caller its own copy of the rows', async () => {
+        const cached = new CachingExecutor(countingExecutor());
+        const query = bucket('exchange').select('name', 'value');
+
+        const first = await cached.execute(query);
+        first.results.push({ ...first.results[0], name: 'Coins' } as (typeof first.results)[number]);
+        first.results.reverse();
+        const hit = await cached.execute(query);
+        hit.results.forEach((row) => (row.value = 0));
+        const second = await cached.execute(query);
+
+        expect(second.results).toEqual([{ name: 'Abyssal whip', value: 1 }]);
+    });
+
+    test('keys entries on printSQL so equivalent builders share an entry', async () => {
+        const inner = countingExecutor();
+        const cached = new CachingExecutor(inner);
+
+        await cached.execute(bucket('exchange').select('name').where('value', '>', 1));
+        await bucket('exchange').select('name').where('value', '>', 1).execute(cached);
+
+        expect(inner.calls).toHaveLength(1);
+    });
+
+    test('refetches once the TTL has elapsed', async () => {
+        const inner = countingExecutor();
+        let clock = 0;
+        const cached = new CachingExecutor(inner, { ttlMs: 1000, now: () => clock });
+        const query = bucket('exchange');
+
+        await cached.execute(query);
+        clock = 999;
+        await cached.execute(query);
+        clock = 1000;
+        const refreshed = await cached.execute(query);
+
+        expect(inner.calls).toHaveLength(2);
+        expect(refreshed.first()).toEqual({ name: 'Abyssal whip', value: 2 });
+    });
+
+    test('does not cache responses that carry an API error', async () => {
+        const inner = countingExecutor();
+        const cached = new CachingExecutor(inner);
+        const query = bucket('exchange').where('name', 'invalid');
+
+        await cached.execute(query);
+        await cached.execute(query);
+
+        expect(inner.calls).toHaveLength(2);
+    });
+
+    test('evicts the least recently used entry past maxEntries', async () => {
+        const inner = countingExecutor();
+        const cached = new CachingExecutor(inner, { maxEntries: 2 });
+        const a = bucket('exchange').where('id', 1);
+        const b = bucket('exchange').where('id', 2);
+        const c = bucket('exchange').where('id', 3);
+
+        await cached.execute(a);
+        await cached.execute(b);
+        await cached.execute(a);
+        await cached.execute(c);
+        await cached.execute(a);
+        await cached.execute(b);
+
+        expect(inner.calls).toEqual([a.printSQL(), b.printSQL(), c.printSQL(), b.printSQL()]);
+    });
+
+    test('invalidate drops a single entry and clear drops all', async () => {
+        const inner = countingExecutor();
+        const cached = new CachingExecutor(inner);
+        const a = bucket('exchange').where('id', 1);
+        const b = bucket('exchange').where('id', 2);
+
+        await cached.execute(a);
+        await cached.execute(b);
+        await cached.invalidate(a);
+        await cached.execute(a);
+        await cached.execute(b);
+        expect(inner.calls).toHaveLength(3);
+
+        await cached.clear();
+        await cached.execute(b);
+        expect(inner.calls).toHaveLength(4);
+    });
+
+    test('uses a custom store', async () => {
+        const store = new MemoryCacheStore();
+        const cached = new CachingExecutor(countingExecutor(), { store });
+
+        await cached.execute(bucket('exchange'));
+
+        expect(store.size).toBe(1);
+    });
+});
+
+describe('MemoryCacheStore', () => {
+    test('returns undefined for a missing key', async () => {
+        expect(await new MemoryCacheStore().get('missing')).toBeUndefined();
+    });
+
+    test('snapshot lists entries from least to most recently used', async () => {
+        const store = new MemoryCacheStore({ maxEntries: 3 });
+        await store.set('a', entry(1));
+        await store.set('b', entry(2));
+        await store.get('a');
+
+        expect(store.snapshot().map(([key]) => key)).toEqual(['b', 'a']);
+    });
+});
+
+describe('FileCacheStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'bucket-cache-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('persists entries across store instances', async () => {
+        const path = join(dir, 'cache.json');
+        await new FileCacheStore(path).set('a', entry(1));
+
+        const reopened = new FileCacheStore(path);
+
+        expect(await reopened.get('a')).toEqual(entry(1));
+    });
+
+    test('applies LRU eviction and writes it to disk', async () => {
+        const path = join(dir, 'cache.json');
+        const store = new FileCacheStore(path, { maxEntries: 2 });
+        await store.set('a', entry(1));
+        await store.set('b', entry(2));
+        await store.set('c', entry(3));
+
+        const onDisk = JSON.parse(readFileSync(path, 'utf-8')) as Array<[string, BucketCacheEntry]>;
+        expect(onDisk.map(([key]) => key)).toEqual(['b', 'c']);
+    });
+
+    test('delete and clear rewrite the file', async () => {
+        const path = join(dir, 'cache.json');
+        const store = new FileCacheStore(path);
+        await store.set('a', entry(1));
+        await store.set('b', entry(2));
+
+        await store.delete('a');
+        expect(await new FileCacheStore(path).get('a')).toBeUndefined();
+
+        await store.clear();
+        expect(readFileSync(path, 'utf-8')).toBe('[]');
+    });
+
+    test('keeps writing after a failed write', async () => {
+        const path = join(dir, 'missing', 'cache.json');
+        const store = new FileCacheStore(path);
+
+        await expect(store.set('a', entry(1))).rejects.toThrow();
+        mkdirSync(join(dir, 'missing'));
+        await store.set('b', entry(2));
+
+        expect(await new FileCacheStore(path).get('b')).toEqual(entry(2));
+    });
+
+    test('starts empty when the file is corrupt', async () => {
+        const path = join(dir, 'cache.json');
+        writeFileSync(path, '{not json');
+
+        expect(await new FileCacheStore(path).get('a')).toBeUndefined();
+    });
+});
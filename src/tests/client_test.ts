@@ -0,0 +1,196 @@
+import { jest } from '@jest/globals';
+import { BUCKET_API_URL, BucketClient, BUCKET_USER_AGENT, bucketApiUrl, fetchTransport } from '../client.js';
+import type { BucketHttpRequest, BucketHttpResponse, BucketTransport } from '../client.js';
+import { BucketHttpError, BucketWarningError } from '../errors.js';
+import { bucket } from '../query-builder.js';
+
+interface StubTransport {
+    transport: BucketTransport;
+    requests: BucketHttpRequest[];
+}
+
+function stubTransport(response: BucketHttpResponse): StubTransport {
+    const requests: BucketHttpRequest[] = [];
+    const transport: BucketTransport = (request) => {
+        requests.push(request);
+        return Promise.resolve(response);
+    };
+    return { transport, requests };
+}
+
+const WHIP_RESPONSE: BucketHttpResponse = {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+    body: {
+        bucketQuery: "bucket('exchange').select('name', 'value', 'page_name', 'page_name_sub').run()",
+        bucket: [{ name: 'Abyssal whip', value: 120001, page_name: 'Abyssal whip', page_name_sub: '' }],
+    },
+};
+
+describe('BucketClient', () => {
+    describe('request', () => {
+        test('sends a GET request to the query URL', async () => {
+            const { transport, requests } = stubTransport(WHIP_RESPONSE);
+            const query = bucket('exchange').select('name', 'value');
+
+            await new BucketClient({ transport }).execute(query);
+
+            expect(requests).toHaveLength(1);
+            expect(requests[0]?.method).toBe('GET');
+            expect(requests[0]?.url).toBe(query.toUrl());
+        });
+
+        test('sends the default User-Agent', async () => {
+            const { transport, requests } = stubTransport(WHIP_RESPONSE);
+
+            await new BucketClient({ transport }).execute(bucket('exchange'));
+
+            expect(requests[0]?.headers['User-Agent']).toBe(BUCKET_USER_AGENT);
+        });
+
+        test('allows overriding the User-Agent and adding headers', async () => {
+            const { transport, requests } = stubTransport(WHIP_RESPONSE);
+
+            await new BucketClient({
+                transport,
+                userAgent: 'my-bot/1.0',
+                headers: { 'X-Trace': 'abc' },
+            }).execute(bucket('exchange'));
+
+            expect(requests[0]?.headers).toEqual({ 'User-Agent': 'my-bot/1.0', 'X-Trace': 'abc' });
+        });
+
+        test('posts queries whose URL is longer than maxGetUrlLength', async () => {
+            const { transport, requests } = stubTransport(WHIP_RESPONSE);
+            const warn = jest.fn();
+            const query = bucket('exchange', { logger: { warn }, maxUrlLength: 100 }).select('name', 'value');
+
+            await new BucketClient({ transport, maxGetUrlLength: 100 }).execute(query);
+
+            expect(requests).toEqual([
+                {
+                    method: 'POST',
+                    url: BUCKET_API_URL,
+                    headers: { 'User-Agent': BUCKET_USER_AGENT, 'Content-Type': 'application/x-www-form-urlencoded' },
+                    body: `action=bucket&format=json&query=${query.run()}`,
+                },
+            ]);
+            expect(warn).not.toHaveBeenCalled();
+        });
+
+        test('sends a GET up to maxGetUrlLength', async () => {
+            const { transport, requests } = stubTransport(WHIP_RESPONSE);
+            const query = bucket('exchange').select('name', 'value');
+
+            await new BucketClient({ transport, maxGetUrlLength: query.urlLength() }).execute(query);
+
+            expect(requests[0]?.method).toBe('GET');
+            expect(requests[0]?.body).toBeUndefined();
+        });
+
+        test("checks only maxGetUrlLength, not the builder's maxUrlLength", async () => {
+            const { transport, requests } = stubTransport(WHIP_RESPONSE);
+            const query = bucket('exchange', { strict: true, maxUrlLength: 10 }).select('name', 'value');
+
+            await new BucketClient({ transport }).execute(query);
+
+            expect(requests[0]).toMatchObject({ method: 'GET', url: bucketApiUrl(query.printSQL()) });
+            expect(() => query.toUrl()).toThrow(BucketWarningError);
+        });
+
+        test('reports the POST URL in HTTP errors', async () => {
+            const { transport } = stubTransport({ status: 414, headers: {}, body: 'Too long' });
+
+            await expect(
+                new BucketClient({ transport, maxGetUrlLength: 0 }).execute(bucket('exchange')),
+            ).rejects.toMatchObject({ status: 414, url: BUCKET_API_URL });
+        });
+    });
+
+    describe('response', () => {
+        test('wraps the payload in a typed BucketResponse', async () => {
+            const { transport } = stubTransport(WHIP_RESPONSE);
+            const query = bucket('exchange').select('name', 'value');
+
+            const response = await new BucketClient({ transport }).execute(query);
+            const first = response.first();
+
+            expect(first?.name).toBe('Abyssal whip');
+            expect(first?.value).toBe(120001);
+        });
+
+        test('leaves API-level errors on the response', async () => {
+            const { transport } = stubTransport({
+                status: 200,
+                headers: {},
+                body: {
+                    bucketQuery: "bucket('invalid_bucket').run()",
+                    error: "Bucket 'invalid_bucket' does not exist",
+                },
+            });
+
+            const response = await new BucketClient({ transport }).execute(bucket('exchange'));
+
+            expect(response.error).toBe("Bucket 'invalid_bucket' does not exist");
+        });
+
+        test.each([
+            { name: 'server error', status: 503, body: '<html>Service Unavailable</html>' },
+            { name: 'client error', status: 404, body: { error: 'not found' } },
+        ])('throws BucketHttpError on $name', async ({ status, body }) => {
+            const { transport } = stubTransport({ status, headers: {}, body });
+            const query = bucket('exchange');
+
+            const error = await new BucketClient({ transport }).execute(query).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(BucketHttpError);
+            expect(error).toMatchObject({ status, url: query.toUrl(), body });
+        });
+
+        test('throws BucketHttpError when the body is not a bucket payload', async () => {
+            const { transport } = stubTransport({ status: 200, headers: {}, body: 'not json' });
+
+            await expect(new BucketClient({ transport }).execute(bucket('exchange'))).rejects.toThrow(
+                'not a bucket response',
+            );
+        });
+    });
+});
+
+describe('fetchTransport', () => {
+    test.each([
+        { name: 'parses a JSON body', text: '{"bucketQuery":"q"}', expected: { bucketQuery: 'q' } },
+        { name: 'keeps a non-JSON body as text', text: '<html></html>', expected: '<html></html>' },
+    ])('$name', async ({ text, expected }) => {
+        const spy = jest
+            .spyOn(globalThis, 'fetch')
+            .mockResolvedValue(new Response(text, { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
+        const response = await fetchTransport({ method: 'GET', url: 'https://example.test', headers: { A: 'b' } });
+
+        expect(spy).toHaveBeenCalledWith('https://example.test', { method: 'GET', headers: { A: 'b' } });
+        expect(response).toEqual({ status: 200, headers: { 'content-type': 'application/json' }, body: expected });
+        spy.mockRestore();
+    });
+
+    test('sends the body of a POST', async () => {
+        const spy = jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+
+        await fetchTransport({ method: 'POST', url: 'https://example.test', headers: {}, body: 'a=1' });
+
+        expect(spy).toHaveBeenCalledWith('https://example.test', { method: 'POST', headers: {}, body: 'a=1' });
+        spy.mockRestore();
+    });
+});
+
+describe('BucketQueryBuilder.execute', () => {
+    test('executes through the given executor', async () => {
+        const { transport, requests } = stubTransport(WHIP_RESPONSE);
+        const query = bucket('exchange').select('name', 'value').where('name', 'Abyssal whip');
+
+        const response = await query.execute(new BucketClient({ transport }));
+
+        expect(requests[0]?.url).toBe(query.toUrl());
+        expect(response.first()?.value).toBe(120001);
+    });
+});
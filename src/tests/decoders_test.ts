@@ -0,0 +1,169 @@
+import { readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { decodeRows, getDecoder, jsonDecoder, jsonObjectDecoder, registerDecoder } from '../decoders.js';
+import type { DropsLineJson } from '../decoders.js';
+import { bucket } from '../query-builder.js';
+import { BucketResponse } from '../types.js';
+import type { BucketApiResponse } from '../types.js';
+
+const currentDir = dirname(fileURLToPath(import.meta.url));
+
+function loadFixture<T = unknown>(filename: string): BucketApiResponse<T> {
+    const filePath = resolve(currentDir, 'fixtures', filename);
+    const content = readFileSync(filePath, 'utf-8');
+    return JSON.parse(content) as BucketApiResponse<T>;
+}
+
+/**
+ * Helper to assert that a type is assignable to another at compile time.
+ * If the types don't match, TypeScript will error on the call site.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
+function assertType<_T>(_value: _T): void {
+    // compile-time only
+}
+
+describe('built-in decoders', () => {
+    test.each([
+        'dropsline.drop_json',
+        'recipe.production_json',
+        'storeline.sold_item_json',
+        'quest.json',
+        'money_making_guide.json',
+        'infobox_spell.json',
+        'music_map.location_json',
+    ])('registers %s', (key) => {
+        const [bucketName = '', field = ''] = key.split('.');
+        expect(getDecoder(bucketName, field)).toBeDefined();
+    });
+
+    test.each([
+        { name: 'an object', decoder: jsonObjectDecoder(), raw: '{"a":[1,2]}', expected: { a: [1, 2] } },
+        { name: 'any JSON value', decoder: jsonDecoder(), raw: '[{"x":1}]', expected: [{ x: 1 }] },
+    ])('parse $name', ({ decoder, raw, expected }) => {
+        expect(decoder(raw)).toEqual(expected);
+    });
+
+    test.each([
+        { name: 'invalid JSON', raw: '{"a":', error: SyntaxError },
+        { name: 'an array', raw: '[1]', error: TypeError },
+        { name: 'a scalar', raw: '"text"', error: TypeError },
+    ])('the object decoder rejects $name', ({ raw, error }) => {
+        expect(() => jsonObjectDecoder()(raw)).toThrow(error);
+    });
+});
+
+describe('decodeRows', () => {
+    test('decodes unprefixed fields of the main bucket and leaves the rest alone', () => {
+        const rows = [{ item_name: 'Bones', drop_json: '{"Rarity":"Always"}', rare_drop_table: false }];
+
+        const { rows: decoded, failures } = decodeRows(rows, { bucket: 'dropsline' });
+
+        expect(decoded).toEqual([{ item_name: 'Bones', drop_json: { Rarity: 'Always' }, rare_drop_table: false }]);
+        expect(failures).toEqual([]);
+        expect(rows[0]?.drop_json).toBe('{"Rarity":"Always"}');
+    });
+
+    test('decodes joined fields keyed by bucket name', () => {
+        const rows = [{ name: 'Bronze bar', 'recipe.production_json': '{"ticks":"4"}' }];
+
+        expect(decodeRows(rows).rows).toEqual([{ name: 'Bronze bar', 'recipe.production_json': { ticks: '4' } }]);
+    });
+
+    test('ignores unprefixed fields without a main bucket', () => {
+        const rows = [{ drop_json: '{"Rarity":"Always"}' }];
+
+        expect(decodeRows(rows).rows).toEqual(rows);
+    });
+
+    test('reports malformed content per row and keeps decoding', () => {
+        const rows = [
+            { json: '{"members":true}' },
+            { json: '{"members":' },
+            { json: '[]' },
+            { json: 12 },
+            { json: '' },
+            { json: null },
+        ];
+
+        const { rows: decoded, failures } = decodeRows(rows, { bucket: 'quest' });
+
+        expect(decoded.map((row) => row.json)).toEqual([{ members: true }, null, null, null, null, null]);
+        expect(failures.map(({ row, field, value }) => ({ row, field, value }))).toEqual([
+            { row: 1, field: 'json', value: '{"members":' },
+            { row: 2, field: 'json', value: '[]' },
+            { row: 3, field: 'json', value: 12 },
+        ]);
+        expect(failures[1]?.message).toBe('Expected a JSON object, got array');
+        expect(failures[2]?.message).toBe('Expected a string, got number');
+    });
+
+    test('uses registered decoders', () => {
+        registerDecoder('music_map', 'location_json', (raw) => raw.split(','));
+        try {
+            const { rows } = decodeRows([{ location_json: 'a,b' }], { bucket: 'music_map' });
+
+            expect(rows[0]?.location_json).toEqual(['a', 'b']);
+        } finally {
+            registerDecoder('music_map', 'location_json', jsonDecoder());
+        }
+    });
+
+    test('reports errors thrown by custom decoders', () => {
+        registerDecoder('music_map', 'location_json', () => {
+            throw new RangeError('no locations');
+        });
+        try {
+            const { failures } = decodeRows([{ location_json: '[]' }], { bucket: 'music_map' });
+
+            expect(failures).toEqual([{ row: 0, field: 'location_json', message: 'no locations', value: '[]' }]);
+        } finally {
+            registerDecoder('music_map', 'location_json', jsonDecoder());
+        }
+    });
+});
+
+describe('BucketResponse.decoded', () => {
+    test('reads the main bucket from the echoed query', () => {
+        const response = new BucketResponse(loadFixture('response_dropsline.json'));
+
+        const { rows, failures } = response.decoded();
+
+        expect(rows).toHaveLength(3);
+        expect(rows[0]).toMatchObject({ item_name: 'Bones', drop_json: { Rarity: 'Always', Rolls: 1 } });
+        expect(rows[2]).toMatchObject({ item_name: 'Coins', drop_json: null });
+        expect(failures).toHaveLength(1);
+        expect(failures[0]).toMatchObject({ row: 1, field: 'drop_json' });
+    });
+
+    test('types decoded fields from the bucket', () => {
+        const query = bucket('dropsline').select('item_name', 'drop_json');
+        const response = BucketResponse.from(query, { bucketQuery: query.printSQL(), bucket: [] });
+
+        const check = (): void => {
+            const [row] = response.decoded({ bucket: 'dropsline' }).rows;
+            assertType<DropsLineJson | null | undefined>(row?.drop_json);
+            assertType<string | null | undefined>(row?.item_name);
+            // @ts-expect-error - decoded JSON is no longer a string
+            assertType<string | null | undefined>(row?.drop_json);
+            const [untyped] = response.decoded().rows;
+            assertType<unknown>(untyped?.drop_json);
+        };
+
+        expect(check).toBeDefined();
+    });
+
+    test('accepts an explicit bucket override', () => {
+        const response = new BucketResponse({ bucketQuery: '', bucket: [{ json: '{"a":1}' }] });
+
+        expect(response.decoded().rows).toEqual([{ json: '{"a":1}' }]);
+        expect(response.decoded({ bucket: 'quest' }).rows).toEqual([{ json: { a: 1 } }]);
+    });
+
+    test('throws when the response contains an error', () => {
+        const response = new BucketResponse(loadFixture('response_error.json'));
+
+        expect(() => response.decoded()).toThrow('Bucket API Error');
+    });
+});
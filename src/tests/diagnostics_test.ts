@@ -0,0 +1,185 @@
+import { jest } from '@jest/globals';
+import { configureDiagnostics, consoleLogger, reportWarning, silentLogger } from '../diagnostics.js';
+import type { BucketLogger, BucketWarning } from '../diagnostics.js';
+import { BucketWarningError } from '../errors.js';
+import { BucketQueryBuilder, bucket } from '../query-builder.js';
+import { QUERY_DEFAULTS } from '../types.js';
+
+function recordingLogger(): BucketLogger & { warnings: BucketWarning[] } {
+    const warnings: BucketWarning[] = [];
+    return {
+        warnings,
+        warn: (warning) => {
+            warnings.push(warning);
+        },
+    };
+}
+
+afterEach(() => {
+    configureDiagnostics({ logger: consoleLogger, strict: false, maxUrlLength: QUERY_DEFAULTS.MAX_URL_LENGTH });
+});
+
+describe('builder warnings', () => {
+    test.each([
+        {
+            name: 'limit above the maximum',
+            build: () => bucket('exchange').limit(10000),
+            expected: {
+                code: 'LIMIT_CLAMPED',
+                message: 'Limit 10000 exceeds max 5000, clamping.',
+                value: 10000,
+            },
+        },
+        {
+            name: 'orderBy on an unselected field',
+            build: () =>
+                bucket('exchange')
+                    .select('name')
+                    .orderBy('value' as 'name', 'asc'),
+            expected: {
+                code: 'ORDER_BY_NOT_SELECTED',
+                message: "orderBy field 'value' is not explicitly selected. This may fail on the Wiki API.",
+                value: 'value',
+            },
+        },
+    ])('reports $name to the global logger', ({ build, expected }) => {
+        const logger = recordingLogger();
+        configureDiagnostics({ logger });
+
+        build();
+
+        expect(logger.warnings).toEqual([expected]);
+    });
+
+    test('writes to console.warn by default', () => {
+        const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        bucket('exchange').limit(10000);
+
+        expect(spy).toHaveBeenCalledWith('Limit 10000 exceeds max 5000, clamping.');
+        spy.mockRestore();
+    });
+
+    test('a per-builder logger takes precedence over the global one', () => {
+        const global = recordingLogger();
+        const local = recordingLogger();
+        configureDiagnostics({ logger: global });
+
+        bucket('exchange', { logger: local }).limit(10000);
+
+        expect(global.warnings).toEqual([]);
+        expect(local.warnings.map((w) => w.code)).toEqual(['LIMIT_CLAMPED']);
+    });
+
+    test('silentLogger discards warnings', () => {
+        const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        bucket('exchange', { logger: silentLogger }).limit(10000);
+
+        expect(spy).not.toHaveBeenCalled();
+        spy.mockRestore();
+    });
+
+    test('clones and revived builders keep their logger', () => {
+        const logger = recordingLogger();
+        const base = bucket('exchange', { logger });
+
+        base.clone().limit(6000);
+        BucketQueryBuilder.fromJSON(base.toJSON(), { logger }).limit(7000);
+
+        expect(logger.warnings.map((w) => w.value)).toEqual([6000, 7000]);
+    });
+});
+
+describe('strict mode', () => {
+    test('throws the warning instead of logging it', () => {
+        const logger = recordingLogger();
+
+        let error: unknown;
+        try {
+            bucket('exchange', { logger, strict: true }).limit(10000);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(BucketWarningError);
+        expect(error).toMatchObject({
+            code: 'LIMIT_CLAMPED',
+            message: 'Limit 10000 exceeds max 5000, clamping.',
+            warning: { value: 10000 },
+        });
+        expect(logger.warnings).toEqual([]);
+    });
+
+    test('can be enabled globally and disabled per builder', () => {
+        configureDiagnostics({ strict: true, logger: silentLogger });
+
+        expect(() =>
+            bucket('exchange')
+                .select('name')
+                .orderBy('value' as 'name', 'asc'),
+        ).toThrow(BucketWarningError);
+        expect(() => bucket('exchange', { strict: false }).limit(10000)).not.toThrow();
+    });
+
+    test('leaves valid calls alone', () => {
+        expect(() =>
+            bucket('exchange', { strict: true }).select('name').orderBy('name', 'asc').limit(10),
+        ).not.toThrow();
+    });
+});
+
+describe('URL length', () => {
+    test('reports a URL longer than maxUrlLength', () => {
+        const logger = recordingLogger();
+        const query = bucket('infobox_monster', { logger, maxUrlLength: 1000 }).select('*');
+
+        const url = query.toUrl();
+
+        expect(logger.warnings).toEqual([
+            {
+                code: 'URL_TOO_LONG',
+                message: `Query URL is ${String(url.length)} characters, over the 1000 limit. The Wiki may reject it as a GET request.`,
+                value: url.length,
+            },
+        ]);
+    });
+
+    test('leaves URLs within the limit alone', () => {
+        const logger = recordingLogger();
+
+        bucket('infobox_monster', { logger }).select('*').toUrl();
+
+        expect(logger.warnings).toEqual([]);
+    });
+
+    test('urlLength() measures the URL without reporting', () => {
+        const logger = recordingLogger();
+        const query = bucket('exchange', { logger, maxUrlLength: 10 }).select('name');
+
+        const length = query.urlLength();
+
+        expect(logger.warnings).toEqual([]);
+        expect(length).toBe(query.toUrl().length);
+        expect(logger.warnings.map((w) => w.code)).toEqual(['URL_TOO_LONG']);
+    });
+
+    test('the limit can be set globally, and throws in strict mode', () => {
+        configureDiagnostics({ maxUrlLength: 10 });
+
+        expect(() => bucket('exchange', { strict: true }).toUrl()).toThrow(BucketWarningError);
+        expect(() => bucket('exchange', { strict: true, maxUrlLength: 1000 }).toUrl()).not.toThrow();
+    });
+});
+
+describe('configureDiagnostics', () => {
+    test('keeps options that are not passed', () => {
+        const logger = recordingLogger();
+        configureDiagnostics({ logger });
+        configureDiagnostics({ strict: false });
+
+        reportWarning({ code: 'LIMIT_CLAMPED', message: 'm', value: 1 });
+
+        expect(logger.warnings).toHaveLength(1);
+    });
+});
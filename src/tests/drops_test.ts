@@ -0,0 +1,109 @@
+import { fetchDropTable, parseQuantity, parseRarity } from '../drops.js';
+import { stubExecutor } from './helpers/stub-executor.js';
+import type { StubExecutor } from './helpers/stub-executor.js';
+
+function line(page: string, item: string, drop: Record<string, unknown> | string, value: number | null): object {
+    return {
+        item_name: item,
+        drop_json: typeof drop === 'string' ? drop : JSON.stringify({ 'Dropped item': item, ...drop }),
+        'exchange.value': value,
+        page_name: page,
+        page_name_sub: '',
+    };
+}
+
+const ROWS: Record<string, object[]> = {
+    Goblin: [
+        line('Goblin', 'Bones', { Rarity: 'Always', 'Drop Quantity': '1' }, 100),
+        line('Goblin', 'Coins', { Rarity: '1/8', 'Drop Quantity': '5-15' }, null),
+        line('Goblin', 'Bronze spear', { Rarity: '1/32', 'Drop Quantity': '1' }, 20),
+        line('Goblin', 'Goblin mail', { Rarity: 'Rare', 'Drop Quantity': '1' }, 50),
+        line('Goblin', 'Hammer', '{"Rarity":', 1),
+    ],
+    'Gem drop table': [
+        line('Gem drop table', 'Uncut sapphire', { Rarity: '1/4', 'Drop Quantity': '1', Rolls: '2' }, 25),
+    ],
+};
+
+/**
+ * Executor that serves the Goblin's drops, its access to the gem drop
+ * table and the table's own lines, recording every Lua query.
+ */
+function dropsExecutor(sources: object[]): StubExecutor {
+    return stubExecutor((lua) =>
+        lua.startsWith("bucket('drop_table_sources')")
+            ? sources
+            : Object.entries(ROWS).flatMap(([page, lines]) => (lua.includes(`'${page}'`) ? lines : [])),
+    );
+}
+
+const GEM_TABLE = { table_name: 'Gem drop table', rolls: 1, rarity: '1/64', page_name: 'Goblin', page_name_sub: '' };
+
+describe('parseRarity', () => {
+    test.each([
+        { rarity: 'Always', expected: 1 },
+        { rarity: '1/128', expected: 1 / 128 },
+        { rarity: '3/5,000', expected: 3 / 5000 },
+        { rarity: '1/12.5', expected: 1 / 12.5 },
+        { rarity: '~1/64', expected: 1 / 64 },
+        { rarity: '2 × 1/64', expected: 2 / 64 },
+        { rarity: '2x 1/64', expected: 2 / 64 },
+        { rarity: '2.5%', expected: 0.025 },
+        { rarity: '1/128 (on task)[1]', expected: 1 / 128 },
+        { rarity: 'Rare', expected: undefined },
+        { rarity: 'Varies', expected: undefined },
+        { rarity: '1/0', expected: undefined },
+    ])('parses "$rarity"', ({ rarity, expected }) => {
+        expect(parseRarity(rarity)).toBe(expected);
+    });
+});
+
+describe('parseQuantity', () => {
+    test.each([
+        { quantity: '1', expected: { min: 1, max: 1, noted: false } },
+        { quantity: '1,000', expected: { min: 1000, max: 1000, noted: false } },
+        { quantity: '5-10', expected: { min: 5, max: 10, noted: false } },
+        { quantity: '5–10 (noted)', expected: { min: 5, max: 10, noted: true } },
+        { quantity: '3; 6; 10-12', expected: { min: 3, max: 12, noted: false } },
+        { quantity: 'N/A', expected: undefined },
+        { quantity: '', expected: undefined },
+    ])('parses "$quantity"', ({ quantity, expected }) => {
+        expect(parseQuantity(quantity)).toEqual(expected);
+    });
+});
+
+describe('fetchDropTable', () => {
+    test('parses and prices the monster and shared table lines', async () => {
+        const table = await fetchDropTable('Goblin', { executor: dropsExecutor([GEM_TABLE]) });
+
+        expect(table.tables).toEqual([{ table: 'Gem drop table', rarity: '1/64', probability: 1 / 64, rolls: 1 }]);
+        expect(table.drops.map((d) => [d.item, d.probability, d.rolls, d.expectedValue, d.table])).toEqual([
+            ['Bones', 1, 1, 100, undefined],
+            ['Coins', 1 / 8, 1, 1.25, undefined],
+            ['Bronze spear', 1 / 32, 1, 0.625, undefined],
+            ['Goblin mail', undefined, 1, undefined, undefined],
+            ['Uncut sapphire', 1 / 256, 2, 0.1953125, 'Gem drop table'],
+        ]);
+        expect(table.drops[1]).toMatchObject({ value: 1, quantity: { min: 5, max: 15, noted: false } });
+        expect(table.expectedValue).toBe(100 + 1.25 + 0.625 + 0.1953125);
+    });
+
+    test('reports lines whose drop_json is malformed', async () => {
+        const table = await fetchDropTable('Goblin', { executor: dropsExecutor([]) });
+
+        expect(table.failures).toMatchObject([{ row: 4, field: 'drop_json', value: '{"Rarity":' }]);
+        expect(table.drops.map((d) => d.item)).not.toContain('Hammer');
+    });
+
+    test('queries each bucket once and skips the shared tables when asked to', async () => {
+        const withTables = dropsExecutor([GEM_TABLE]);
+        await fetchDropTable('Goblin', { executor: withTables });
+        const withoutTables = dropsExecutor([GEM_TABLE]);
+        await fetchDropTable('Goblin', { executor: withoutTables, includeSharedTables: false });
+
+        expect(withTables.calls).toHaveLength(3);
+        expect(withTables.calls[2]).toContain("{ 'page_name', 'Gem drop table' }");
+        expect(withoutTables.calls).toHaveLength(1);
+        expect(withoutTables.calls[0]).toContain(".join('exchange', 'dropsline.item_name', 'exchange.name')");
+    });
+});
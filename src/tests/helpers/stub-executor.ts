@@ -0,0 +1,38 @@
+import type { BucketExecutor, ExecutableQuery } from '../../client.js';
+import { BucketResponse } from '../../types.js';
+import type { BucketApiResponse } from '../../types.js';
+
+/**
+ * Answers a query with the rows it returns, or with a whole API payload
+ * (e.g. an `error`). Receives the printed Lua and the query itself.
+ */
+type StubAnswer = (lua: string, query: ExecutableQuery) => unknown[] | BucketApiResponse | Promise<unknown[]>;
+
+/** An executor answering from a {@link StubAnswer}, recording the Lua of every query. */
+export interface StubExecutor extends BucketExecutor {
+    calls: string[];
+}
+
+/**
+ * Creates an executor that answers every query without the network.
+ *
+ * @example
+ * ```typescript
+ * const executor = stubExecutor((lua) => (lua.includes("'Coins'") ? [{ name: 'Coins' }] : []));
+ * await bucket('exchange').select('name').where('name', 'Coins').execute(executor);
+ * executor.calls; // ["bucket('exchange').select('name', ...).where({ 'name', 'Coins' }).run()"]
+ * ```
+ */
+export function stubExecutor(answer: StubAnswer): StubExecutor {
+    const calls: string[] = [];
+    return {
+        calls,
+        async execute<Q extends ExecutableQuery>(query: Q): Promise<BucketResponse<Q['__resultType']>> {
+            const lua = query.printSQL();
+            calls.push(lua);
+            const answered = await answer(lua, query);
+            const raw: BucketApiResponse = Array.isArray(answered) ? { bucketQuery: lua, bucket: answered } : answered;
+            return BucketResponse.from(query, raw as BucketApiResponse<Q['__resultType']>);
+        },
+    };
+}
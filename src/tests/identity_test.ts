@@ -0,0 +1,126 @@
+import { normalizeId, resolveIds, resolvePageNames } from '../identity.js';
+import { stubExecutor } from './helpers/stub-executor.js';
+import type { StubExecutor } from './helpers/stub-executor.js';
+
+const PAGES: Record<string, Record<string, string[]>> = {
+    item_id: { 'Abyssal whip': ['4151', '4178'], 'Armadyl godsword': ['11802'] },
+    npc_id: { Goblin: ['655', '656', '3029'], Imp: ['5007'] },
+    object_id: { 'Bank booth': ['10355'] },
+};
+
+const EXCHANGE = [{ page_name: 'Exchange:Coins', page_name_sub: '', id: 995, name: 'Coins' }];
+
+/**
+ * Answers each query from PAGES and EXCHANGE like the wiki does: a row
+ * matches a `{ 'field', value }` condition when the field, or one entry of
+ * a repeated field, equals the value exactly.
+ */
+function executor(): StubExecutor {
+    return stubExecutor((lua) => {
+        const conditions = [...lua.matchAll(/\{ '(\w+)', (?:'([^']*)'|(\d+)) \}/g)].map(
+            ([, field = '', text, number]) => ({ field, value: text ?? Number(number) }),
+        );
+        const name = /^bucket\('(\w+)'\)/.exec(lua)?.[1] ?? '';
+        const rows: Record<string, unknown>[] =
+            name === 'exchange'
+                ? EXCHANGE
+                : Object.entries(PAGES[name] ?? {}).map(([page, ids]) => ({
+                      page_name: page,
+                      page_name_sub: '',
+                      id: ids,
+                  }));
+        return rows.filter((row) =>
+            conditions.some(({ field, value }) => {
+                const cell = row[field];
+                return (Array.isArray(cell) ? (cell as unknown[]) : [cell]).includes(value);
+            }),
+        );
+    });
+}
+
+describe('normalizeId', () => {
+    test.each([
+        { name: 'a number', id: 4151, expected: 4151 },
+        { name: 'a string', id: '4151', expected: 4151 },
+        { name: 'padded text', id: ' 4151 ', expected: 4151 },
+        { name: 'not a number', id: 'N/A', expected: undefined },
+        { name: 'a fraction', id: 1.5, expected: undefined },
+        { name: 'a negative number', id: -1, expected: undefined },
+    ])('$name', ({ id, expected }) => {
+        expect(normalizeId(id)).toBe(expected);
+    });
+});
+
+describe('resolvePageNames', () => {
+    test('maps numeric and string IDs to pages', async () => {
+        const fake = executor();
+        const names = await resolvePageNames('npc', [656, '3029', 5007, 'x', 99999], { executor: fake });
+
+        expect(fake.calls).toHaveLength(1);
+        expect(fake.calls[0]).toMatch(/^bucket\('npc_id'\)/);
+        expect(names).toEqual(
+            new Map([
+                [656, 'Goblin'],
+                [3029, 'Goblin'],
+                [5007, 'Imp'],
+            ]),
+        );
+    });
+
+    test('splits the IDs by URL length', async () => {
+        const fake = executor();
+        const names = await resolvePageNames('item', [4151, 4178, 11802], {
+            executor: fake,
+            maxUrlLength: 1,
+        });
+
+        expect(fake.calls).toHaveLength(3);
+        expect(fake.calls[0]).toContain("{ 'id', '4151' }");
+        expect(fake.calls[2]).toContain("{ 'id', '11802' }");
+        expect([...names.values()]).toEqual(['Abyssal whip', 'Abyssal whip', 'Armadyl godsword']);
+    });
+
+    test('falls back to the exchange for unknown item IDs', async () => {
+        const fake = executor();
+        const names = await resolvePageNames('item', [995, 4151], { executor: fake });
+
+        expect(fake.calls).toHaveLength(2);
+        expect(fake.calls[1]).toMatch(/^bucket\('exchange'\)/);
+        expect(fake.calls[1]).toContain("{ 'id', 995 }");
+        expect(names).toEqual(
+            new Map([
+                [995, 'Coins'],
+                [4151, 'Abyssal whip'],
+            ]),
+        );
+    });
+
+    test('sends no query without valid IDs', async () => {
+        const fake = executor();
+
+        await expect(resolvePageNames('object', ['none'], { executor: fake })).resolves.toEqual(new Map());
+        expect(fake.calls).toEqual([]);
+    });
+});
+
+describe('resolveIds', () => {
+    test('maps pages to the IDs they list', async () => {
+        const fake = executor();
+        const ids = await resolveIds('npc', ['Goblin', 'Imp', 'Nobody'], { executor: fake });
+
+        expect(fake.calls).toHaveLength(1);
+        expect(fake.calls[0]).toContain("{ 'page_name', 'Goblin' }");
+        expect(ids).toEqual(
+            new Map([
+                ['Goblin', [655, 656, 3029]],
+                ['Imp', [5007]],
+            ]),
+        );
+    });
+
+    test('reads object IDs', async () => {
+        const ids = await resolveIds('object', ['Bank booth'], { executor: executor() });
+
+        expect(ids.get('Bank booth')).toEqual([10355]);
+    });
+});
@@ -0,0 +1,168 @@
+import { fetchMonsterStats, parseImmunity, parseMaxHit, toMonsterStats } from '../monsters.js';
+import { stubExecutor } from './helpers/stub-executor.js';
+
+const ROW = {
+    page_name: 'Goblin',
+    page_name_sub: '',
+    name: 'Goblin',
+    default_version: false,
+    version_anchor: 'Level 2',
+    id: ['3029, 3030', '655'],
+    combat_level: 2,
+    size: 1,
+    attack_speed: 4,
+    attack_style: ['Crush'],
+    max_hit: ['1'],
+    attribute: [],
+    hitpoints: 5,
+    attack_level: 1,
+    strength_level: 1,
+    defence_level: 1,
+    ranged_level: null,
+    magic_level: 1,
+    attack_bonus: null,
+    strength_bonus: null,
+    magic_attack_bonus: null,
+    magic_damage_bonus: null,
+    range_attack_bonus: null,
+    range_strength_bonus: null,
+    stab_defence_bonus: -15,
+    slash_defence_bonus: -15,
+    crush_defence_bonus: -15,
+    magic_defence_bonus: -15,
+    range_defence_bonus: -15,
+    light_range_defence_bonus: -15,
+    standard_range_defence_bonus: -15,
+    heavy_range_defence_bonus: -15,
+    flat_armour: null,
+    poison_immune: 'Not immune',
+    venom_immune: 'Not immune',
+    cannon_immune: 'No',
+    thrall_immune: 'No',
+    burn_immune: null,
+    freeze_resistance: '0',
+    elemental_weakness: 'Water',
+    elemental_weakness_percent: 25,
+};
+
+describe('parseMaxHit', () => {
+    test.each([
+        { name: 'a number', text: '25', expected: [{ damage: 25, style: undefined }] },
+        { name: 'thousands separators', text: '1,000', expected: [{ damage: 1000, style: undefined }] },
+        { name: 'a style', text: '46 (Magic)', expected: [{ damage: 46, style: 'Magic' }] },
+        {
+            name: 'several hits',
+            text: '22 (Melee), 30 (Ranged)',
+            expected: [
+                { damage: 22, style: 'Melee' },
+                { damage: 30, style: 'Ranged' },
+            ],
+        },
+        {
+            name: 'a bracketed note',
+            text: '46 (Magic) (post-quest 50)',
+            expected: [{ damage: 46, style: 'Magic' }],
+        },
+        { name: 'no number', text: 'Varies', expected: [] },
+    ])('$name', ({ text, expected }) => {
+        expect(parseMaxHit(text)).toEqual(expected);
+    });
+});
+
+describe('parseImmunity', () => {
+    test.each([
+        { text: 'Immune', expected: true },
+        { text: 'Yes', expected: true },
+        { text: 'Not immune', expected: false },
+        { text: 'no', expected: false },
+        { text: 'Poisons instead', expected: undefined },
+        { text: null, expected: undefined },
+    ])('$text', ({ text, expected }) => {
+        expect(parseImmunity(text)).toBe(expected);
+    });
+});
+
+describe('toMonsterStats', () => {
+    test('parses a row', () => {
+        expect(toMonsterStats(ROW)).toEqual({
+            page: 'Goblin',
+            name: 'Goblin',
+            version: 'Level 2',
+            ids: [3029, 3030, 655],
+            combatLevel: 2,
+            size: 1,
+            attackSpeed: 4,
+            attackStyles: ['Crush'],
+            maxHits: [{ damage: 1, style: undefined }],
+            maxHit: 1,
+            attributes: [],
+            levels: { hitpoints: 5, attack: 1, strength: 1, defence: 1, ranged: 0, magic: 1 },
+            offence: { attack: 0, strength: 0, magic: 0, magicDamage: 0, ranged: 0, rangedStrength: 0 },
+            defence: {
+                stab: -15,
+                slash: -15,
+                crush: -15,
+                magic: -15,
+                ranged: -15,
+                lightRanged: -15,
+                standardRanged: -15,
+                heavyRanged: -15,
+                flatArmour: 0,
+            },
+            immunities: {
+                poison: false,
+                venom: false,
+                cannon: false,
+                thrall: false,
+                burn: undefined,
+                freezeResistance: 0,
+            },
+            elementalWeakness: { element: 'Water', percent: 25 },
+        });
+    });
+
+    test('takes the highest max hit', () => {
+        expect(toMonsterStats({ ...ROW, max_hit: ['32 (Melee)', '73 (Dragonfire)', 'Varies'] }).maxHit).toBe(73);
+        expect(toMonsterStats({ ...ROW, max_hit: [] }).maxHit).toBeUndefined();
+    });
+});
+
+describe('fetchMonsterStats', () => {
+    const rows = [
+        ROW,
+        { ...ROW, version_anchor: 'Level 5', default_version: true, combat_level: 5, id: ['3031'] },
+        { ...ROW, version_anchor: 'Level 13', combat_level: 13, id: ['3032'] },
+    ];
+
+    test.each([
+        { name: 'the default version', options: {}, expected: 5 },
+        { name: 'a version by anchor', options: { version: 'Level 13' }, expected: 13 },
+    ])('picks $name', async ({ options, expected }) => {
+        const executor = stubExecutor(() => rows);
+        const stats = await fetchMonsterStats('Goblin', { ...options, executor });
+
+        expect(executor.calls[0]).toContain("{ 'name', 'Goblin' }");
+        expect(stats?.combatLevel).toBe(expected);
+    });
+
+    test('falls back to the first row without a default version', async () => {
+        const stats = await fetchMonsterStats('Goblin', { executor: stubExecutor(() => [ROW, rows[2]]) });
+
+        expect(stats?.version).toBe('Level 2');
+    });
+
+    test('queries by id', async () => {
+        const executor = stubExecutor(() => [rows[2]]);
+        const stats = await fetchMonsterStats(3032, { executor });
+
+        expect(executor.calls[0]).toContain("{ 'id', '3032' }");
+        expect(stats?.ids).toEqual([3032]);
+    });
+
+    test('is undefined when nothing matches', async () => {
+        await expect(fetchMonsterStats('Goblin', { executor: stubExecutor(() => []) })).resolves.toBeUndefined();
+        await expect(
+            fetchMonsterStats('Goblin', { version: 'Level 99', executor: stubExecutor(() => rows) }),
+        ).resolves.toBeUndefined();
+    });
+});
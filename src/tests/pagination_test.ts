@@ -0,0 +1,156 @@
+import { BucketClient } from '../client.js';
+import type { BucketTransport } from '../client.js';
+import { bucket } from '../query-builder.js';
+import { QUERY_DEFAULTS } from '../types.js';
+
+interface PagedApi {
+    client: BucketClient;
+    requests: Array<{ limit: number; offset: number }>;
+}
+
+/**
+ * Serves `total` exchange rows, honouring the `.limit()` and `.offset()`
+ * found in the requested Lua query.
+ */
+function pagedApi(total: number): PagedApi {
+    const requests: Array<{ limit: number; offset: number }> = [];
+    const transport: BucketTransport = (request) => {
+        const lua = new URL(request.url).searchParams.get('query') ?? '';
+        const limit = Number(/\.limit\((\d+)\)/.exec(lua)?.[1] ?? QUERY_DEFAULTS.LIMIT);
+        const offset = Number(/\.offset\((\d+)\)/.exec(lua)?.[1] ?? QUERY_DEFAULTS.OFFSET);
+        requests.push({ limit, offset });
+
+        const rows = [];
+        for (let id = offset; id < Math.min(offset + limit, total); id++) {
+            rows.push({ id, name: `Item ${String(id)}`, page_name: `Item ${String(id)}`, page_name_sub: '' });
+        }
+        return Promise.resolve({ status: 200, headers: {}, body: { bucketQuery: lua, bucket: rows } });
+    };
+    return { client: new BucketClient({ transport }), requests };
+}
+
+describe('pagination', () => {
+    describe('iteratePages', () => {
+        test('advances the offset until a page comes back short', async () => {
+            const { client, requests } = pagedApi(25);
+            const pages: number[] = [];
+
+            for await (const page of bucket('exchange').select('id', 'name').iteratePages(client, { pageSize: 10 })) {
+                pages.push(page.length);
+            }
+
+            expect(pages).toEqual([10, 10, 5]);
+            expect(requests).toEqual([
+                { limit: 10, offset: 0 },
+                { limit: 10, offset: 10 },
+                { limit: 10, offset: 20 },
+            ]);
+        });
+
+        test('issues one extra request when the total is an exact multiple of the page size', async () => {
+            const { client, requests } = pagedApi(20);
+            const pages: number[] = [];
+
+            for await (const page of bucket('exchange').iteratePages(client, { pageSize: 10 })) {
+                pages.push(page.length);
+            }
+
+            expect(pages).toEqual([10, 10]);
+            expect(requests).toHaveLength(3);
+        });
+
+        test('starts from the builder offset', async () => {
+            const { client, requests } = pagedApi(100);
+
+            await bucket('exchange').offset(90).fetchAll(client, { pageSize: 50 });
+
+            expect(requests).toEqual([{ limit: 50, offset: 90 }]);
+        });
+
+        test.each([
+            { name: 'defaults to the max limit', pageSize: undefined, expected: QUERY_DEFAULTS.MAX_LIMIT },
+            { name: 'clamps oversized pages', pageSize: 10000, expected: QUERY_DEFAULTS.MAX_LIMIT },
+            { name: 'rounds fractional sizes down', pageSize: 10.9, expected: 10 },
+            {
+                name: 'falls back to the default limit for non-positive sizes',
+                pageSize: 0,
+                expected: QUERY_DEFAULTS.LIMIT,
+            },
+        ])('page size $name', async ({ pageSize, expected }) => {
+            const { client, requests } = pagedApi(3);
+            const options = pageSize === undefined ? {} : { pageSize };
+
+            await bucket('exchange').fetchAll(client, options);
+
+            expect(requests[0]?.limit).toBe(expected);
+        });
+
+        test('does not mutate the original builder', async () => {
+            const { client } = pagedApi(25);
+            const query = bucket('exchange').select('id');
+            const before = query.printSQL();
+
+            await query.fetchAll(client, { pageSize: 10 });
+
+            expect(query.printSQL()).toBe(before);
+        });
+    });
+
+    describe('maxRows', () => {
+        test('shrinks the final request so the cap is never exceeded', async () => {
+            const { client, requests } = pagedApi(1000);
+
+            const rows = await bucket('exchange').fetchAll(client, { pageSize: 10, maxRows: 25 });
+
+            expect(rows).toHaveLength(25);
+            expect(requests.map((r) => r.limit)).toEqual([10, 10, 5]);
+        });
+
+        test('rounds a fractional cap down', async () => {
+            const { client, requests } = pagedApi(1000);
+
+            const rows = await bucket('exchange').fetchAll(client, { maxRows: 2.5 });
+
+            expect(rows).toHaveLength(2);
+            expect(requests.map((r) => r.limit)).toEqual([2]);
+        });
+
+        test('fetches nothing when the cap is zero', async () => {
+            const { client, requests } = pagedApi(1000);
+
+            const rows = await bucket('exchange').fetchAll(client, { maxRows: 0 });
+
+            expect(rows).toEqual([]);
+            expect(requests).toHaveLength(0);
+        });
+    });
+
+    describe('iterate', () => {
+        test('yields individual typed rows in order', async () => {
+            const { client } = pagedApi(7);
+            const names: Array<string | null> = [];
+
+            for await (const row of bucket('exchange').select('id', 'name').iterate(client, { pageSize: 3 })) {
+                names.push(row.name);
+            }
+
+            expect(names).toEqual(['Item 0', 'Item 1', 'Item 2', 'Item 3', 'Item 4', 'Item 5', 'Item 6']);
+        });
+    });
+
+    describe('fetchAll', () => {
+        test('collects rows from every page', async () => {
+            const { client } = pagedApi(12);
+
+            const rows = await bucket('exchange').select('id').fetchAll(client, { pageSize: 5 });
+
+            expect(rows.map((r) => r.id)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+        });
+
+        test('returns an empty array when there are no rows', async () => {
+            const { client } = pagedApi(0);
+
+            expect(await bucket('exchange').fetchAll(client)).toEqual([]);
+        });
+    });
+});
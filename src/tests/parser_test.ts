@@ -0,0 +1,307 @@
+import { jest } from '@jest/globals';
+import { readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { configureDiagnostics, consoleLogger } from '../diagnostics.js';
+import { BucketQueryParseError } from '../errors.js';
+import { parseBucketQuery } from '../parser.js';
+import { bucket } from '../query-builder.js';
+import { Bucket } from '../types.js';
+import type { BucketApiResponse, BucketCondition, Operator, ScalarValue } from '../types.js';
+
+const currentDir = dirname(fileURLToPath(import.meta.url));
+
+function loadFixture(filename: string): BucketApiResponse {
+    const filePath = resolve(currentDir, 'fixtures', filename);
+    return JSON.parse(readFileSync(filePath, 'utf-8')) as BucketApiResponse;
+}
+
+function roundTrip(lua: string): string {
+    return parseBucketQuery(lua).printSQL();
+}
+
+/** Deterministic pseudo-random source (mulberry32), so generated cases are reproducible. */
+function seededRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const OPERATORS: Operator[] = ['=', '!=', '>', '<', '>=', '<='];
+const VALUES: ScalarValue[] = ['Abyssal whip', "Zulrah's scales", 'back\\slash', '', 0, -5, 1.5, 120001, true, false];
+
+function randomCondition(random: () => number, depth: number): BucketCondition {
+    const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)] as T;
+    const field = pick(['name', 'value', 'is_alchable', 'limit']);
+    const roll = random();
+
+    if (depth > 0 && roll < 0.15) {
+        return Bucket.And(randomCondition(random, depth - 1), randomCondition(random, depth - 1));
+    }
+    if (depth > 0 && roll < 0.3) {
+        return Bucket.Or(randomCondition(random, depth - 1), randomCondition(random, depth - 1));
+    }
+    if (depth > 0 && roll < 0.4) {
+        return Bucket.Not(randomCondition(random, depth - 1));
+    }
+    if (roll < 0.5) {
+        return [field, pick(['=', '!=']), Bucket.Null()];
+    }
+    if (roll < 0.7) {
+        return [field, pick(VALUES)];
+    }
+    return [field, pick(OPERATORS), pick(VALUES)];
+}
+
+describe('parseBucketQuery', () => {
+    describe('round trip', () => {
+        test.each([
+            { name: 'bare bucket', query: bucket('exchange') },
+            { name: 'select', query: bucket('exchange').select('id', 'name', 'value') },
+            { name: 'wildcard select', query: bucket('exchange').select('*') },
+            { name: 'equality', query: bucket('exchange').select('name').where('name', 'Abyssal whip') },
+            { name: 'operator', query: bucket('exchange').where('value', '>=', 1000) },
+            { name: 'boolean', query: bucket('exchange').where('is_alchable', false) },
+            { name: 'negative and decimal', query: bucket('exchange').where('value', '>', -1.25) },
+            { name: 'escaped string', query: bucket('exchange').where('name', "Zulrah's \\ scales") },
+            { name: 'null checks', query: bucket('exchange').whereNull('limit').whereNotNull('value') },
+            { name: 'whereIn', query: bucket('exchange').whereIn('id', [1, 2, 3]) },
+            { name: 'empty whereIn', query: bucket('exchange').whereIn('id', []) },
+            { name: 'whereBetween', query: bucket('exchange').whereBetween('value', [10, 20]) },
+            {
+                name: 'multiple conditions in one where',
+                query: bucket('exchange').where(['name', 'Coins'], ['value', '>', 1]),
+            },
+            {
+                name: 'nested helpers',
+                query: bucket('exchange').where(
+                    Bucket.Or(Bucket.And(['value', '>', 1], ['limit', '<', 5]), Bucket.Not(['name', 'Coins'])),
+                ),
+            },
+            {
+                name: 'join with alias',
+                query: bucket('infobox_item')
+                    .join('exchange', 'ex', 'item_name', 'name')
+                    .select('item_name', 'ex.value')
+                    .where('ex.value', '>', 100)
+                    .orderBy('ex.value', 'desc'),
+            },
+            {
+                name: 'join wildcard',
+                query: bucket('infobox_item').join('exchange', 'item_name', 'name').select('item_name', 'exchange.*'),
+            },
+            {
+                name: 'multiple joins',
+                query: bucket('infobox_item')
+                    .join('exchange', 'item_name', 'name')
+                    .join('storeline', 'shop', 'item_name', 'sold_item')
+                    .select('item_name', 'exchange.value', 'shop.sold_by'),
+            },
+            {
+                name: 'ordering and paging',
+                query: bucket('exchange').select('name', 'value').orderBy('value', 'asc').paginate(3, 25),
+            },
+            { name: 'fractional limit and offset', query: bucket('exchange').limit(2.5).offset(10.5) },
+        ])('$name', ({ query }) => {
+            expect(roundTrip(query.printSQL())).toBe(query.printSQL());
+        });
+
+        test('holds for generated queries', () => {
+            const random = seededRandom(20241019);
+
+            for (let i = 0; i < 200; i++) {
+                const query = bucket('exchange').select('name', 'value', 'is_alchable', 'limit');
+                const whereCount = Math.floor(random() * 4);
+                for (let w = 0; w < whereCount; w++) {
+                    query.where(randomCondition(random, 3));
+                }
+                if (random() < 0.5) query.orderBy(random() < 0.5 ? 'name' : 'value', random() < 0.5 ? 'asc' : 'desc');
+                if (random() < 0.5) query.limit(1 + Math.floor(random() * 5000));
+                if (random() < 0.5) query.offset(Math.floor(random() * 10000));
+
+                const lua = query.printSQL();
+                expect(roundTrip(lua)).toBe(lua);
+            }
+        });
+    });
+
+    describe('input formats', () => {
+        test.each([
+            { name: 'response_success.json' },
+            { name: 'response_multiple_rows.json' },
+            { name: 'response_with_arrays.json' },
+            { name: 'response_with_nulls.json' },
+            { name: 'response_empty.json' },
+        ])('parses the query echoed in $name', ({ name }) => {
+            const echoed = loadFixture(name).bucketQuery;
+
+            const reprinted = roundTrip(echoed);
+
+            expect(reprinted.replace(", 'page_name', 'page_name_sub'", '')).toBe(echoed);
+        });
+
+        test('accepts double quotes, whitespace, comments and a missing .run()', () => {
+            const lua = `
+                bucket("exchange")
+                    -- only tradeable items
+                    .select("name", "value")
+                    .where({ "value", ">", 100 })
+            `;
+
+            expect(roundTrip(lua)).toBe(bucket('exchange').select('name', 'value').where('value', '>', 100).printSQL());
+        });
+
+        test('keeps a hand-written fractional limit', () => {
+            const query = parseBucketQuery("bucket('exchange').select('name').limit(10.5).run()", 'exchange');
+
+            expect(query.toJSON().limit).toBe(10.5);
+        });
+
+        test('decodes Lua escape sequences', () => {
+            const query = parseBucketQuery(String.raw`bucket('exchange').where({ 'name', 'it\'s a \"test\"\n' })`);
+
+            expect(query.printSQL()).toBe(bucket('exchange').where('name', 'it\'s a "test"\n').printSQL());
+        });
+
+        test('returns a builder that can be extended and executed', () => {
+            const query = parseBucketQuery("bucket('exchange').select('name', 'value').run()", 'exchange');
+
+            const url = query.where('value', '>', 5).limit(10).toUrl();
+
+            expect(new URL(url).searchParams.get('query')).toBe(
+                "bucket('exchange').select('name', 'value', 'page_name', 'page_name_sub').where({ 'value', '>', 5 }).limit(10).run()",
+            );
+        });
+    });
+
+    describe('errors', () => {
+        test.each([
+            {
+                name: 'missing bucket call',
+                lua: "select('id')",
+                reason: "Expected bucket but found 'select'",
+                line: 1,
+                column: 1,
+            },
+            {
+                name: 'trailing comma',
+                lua: "bucket('exchange').select('id',).run()",
+                reason: "Expected a string but found ')'",
+                line: 1,
+                column: 32,
+            },
+            {
+                name: 'unknown method',
+                lua: "bucket('exchange').groupBy('id')",
+                reason: "Unknown query method 'groupBy'",
+                line: 1,
+                column: 20,
+            },
+            {
+                name: 'invalid operator',
+                lua: "bucket('exchange').where({ 'value', '==', 1 })",
+                reason: "Expected an operator but found string '=='",
+                line: 1,
+                column: 37,
+            },
+            {
+                name: 'unknown helper',
+                lua: "bucket('exchange').where(bucket.Xor())",
+                reason: "Unknown helper 'bucket.Xor'",
+                line: 1,
+                column: 33,
+            },
+            {
+                name: 'bad direction',
+                lua: "bucket('exchange').orderBy('value', 'up')",
+                reason: "Expected 'asc' or 'desc' but found string 'up'",
+                line: 1,
+                column: 37,
+            },
+            {
+                name: 'unterminated string',
+                lua: "bucket('exchange').where({ 'name', 'Abyssal })",
+                reason: 'Unterminated string',
+                line: 1,
+                column: 36,
+            },
+            {
+                name: 'unexpected character',
+                lua: "bucket('exchange').limit(#5)",
+                reason: "Unexpected character '#'",
+                line: 1,
+                column: 26,
+            },
+            {
+                name: 'input after run',
+                lua: "bucket('exchange').run().limit(5)",
+                reason: "Expected end of input after .run() but found '.'",
+                line: 1,
+                column: 25,
+            },
+            {
+                name: 'unclosed call on a later line',
+                lua: "bucket('exchange')\n    .select('id'\n    .run()",
+                reason: "Expected ')' but found '.'",
+                line: 3,
+                column: 5,
+            },
+            {
+                name: 'unexpected bucket',
+                lua: "bucket('infobox_item').run()",
+                expectedBucket: 'exchange' as const,
+                reason: "Expected bucket 'exchange' but found string 'infobox_item'",
+                line: 1,
+                column: 8,
+            },
+            {
+                name: 'non-numeric limit',
+                lua: "bucket('exchange').limit('10')",
+                reason: "Expected a number but found string '10'",
+                line: 1,
+                column: 26,
+            },
+        ])('$name', ({ lua, reason, line, column, ...rest }) => {
+            let error: unknown;
+            try {
+                parseBucketQuery(lua, 'expectedBucket' in rest ? rest.expectedBucket : undefined);
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(BucketQueryParseError);
+            expect(error).toMatchObject({ reason, line, column, source: lua });
+            expect((error as Error).message).toBe(`${reason} at line ${String(line)}, column ${String(column)}`);
+        });
+    });
+
+    describe('diagnostics', () => {
+        const lua = "bucket('exchange').select('name').orderBy('value', 'desc').limit(9000).run()";
+
+        afterEach(() => {
+            configureDiagnostics({ logger: consoleLogger, strict: false });
+        });
+
+        test('parses without reporting warnings, even in global strict mode', () => {
+            const warn = jest.fn();
+            configureDiagnostics({ logger: { warn }, strict: true });
+
+            const query = parseBucketQuery(lua, undefined, { strict: false });
+
+            expect(warn).not.toHaveBeenCalled();
+            expect(query.toJSON()).toMatchObject({ orderBy: [{ field: 'value', direction: 'desc' }], limit: 5000 });
+        });
+
+        test('applies the options to the returned builder', () => {
+            const warn = jest.fn();
+
+            parseBucketQuery(lua, 'exchange', { logger: { warn } }).limit(6000);
+
+            expect(warn).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import { BucketQueryAstError } from '../errors.js';
+import { BUCKET_QUERY_AST_VERSION } from '../query-ast.js';
+import type { BucketQueryAst } from '../query-ast.js';
+import { BucketQueryBuilder, bucket } from '../query-builder.js';
+import { Bucket } from '../types.js';
+
+function validAst(): BucketQueryAst {
+    return bucket('exchange').select('name').toJSON();
+}
+
+describe('BucketQueryBuilder.toJSON', () => {
+    test('serialises every part of the query in a stable shape', () => {
+        const query = bucket('infobox_item')
+            .join('exchange', 'ex', 'item_name', 'name')
+            .select('item_name', 'ex.*')
+            .where('ex.value', '>', 1000)
+            .where(['item_name', 'Abyssal whip'], Bucket.Not(['ex.limit', Bucket.Null()]))
+            .whereIn('item_name', ['A', 'B'])
+            .orderBy('item_name', 'asc')
+            .limit(10)
+            .offset(20);
+
+        expect(query.toJSON()).toEqual({
+            version: BUCKET_QUERY_AST_VERSION,
+            bucket: 'infobox_item',
+            joins: [{ target: 'exchange', alias: 'ex', onSource: 'item_name', onTarget: 'name' }],
+            select: ['item_name', 'ex.*'],
+            where: [
+                [{ type: 'compare', field: 'ex.value', operator: '>', value: 1000 }],
+                [
+                    { type: 'compare', field: 'item_name', value: 'Abyssal whip' },
+                    { type: 'not', condition: { type: 'compare', field: 'ex.limit', value: { type: 'null' } } },
+                ],
+                [
+                    {
+                        type: 'or',
+                        conditions: [
+                            { type: 'compare', field: 'item_name', value: 'A' },
+                            { type: 'compare', field: 'item_name', value: 'B' },
+                        ],
+                    },
+                ],
+            ],
+            orderBy: [{ field: 'item_name', direction: 'asc' }],
+            limit: 10,
+            offset: 20,
+        });
+    });
+
+    test('includes defaults so equal queries serialise identically', () => {
+        const a = JSON.stringify(bucket('exchange').select('name').where('id', 1));
+        const b = JSON.stringify(bucket('exchange').select('name').where('id', 1).limit(500).offset(0));
+
+        expect(a).toBe(b);
+        expect(JSON.parse(a)).toEqual({
+            version: 1,
+            bucket: 'exchange',
+            joins: [],
+            select: ['name'],
+            where: [[{ type: 'compare', field: 'id', value: 1 }]],
+            orderBy: [],
+            limit: 500,
+            offset: 0,
+        });
+    });
+
+    test('shares no state with the builder', () => {
+        const query = bucket('exchange').select('name').where('id', 1);
+
+        const ast = query.toJSON();
+        ast.select.push('value');
+        ast.where.push([{ type: 'null' }]);
+
+        expect(query.toJSON()).toEqual(bucket('exchange').select('name').where('id', 1).toJSON());
+    });
+});
+
+describe('BucketQueryBuilder.fromJSON', () => {
+    test.each([
+        { name: 'bare bucket', query: bucket('exchange') },
+        { name: 'wildcards', query: bucket('infobox_item').join('exchange', 'item_name', 'name').select('*') },
+        {
+            name: 'aliased joins',
+            query: bucket('infobox_item')
+                .join('exchange', 'ex', 'item_name', 'name')
+                .join('storeline', 'shop', 'item_name', 'sold_item')
+                .select('item_name', 'ex.value', 'shop.sold_by')
+                .where('shop.sold_by', '!=', Bucket.Null())
+                .orderBy('ex.value', 'desc'),
+        },
+        {
+            name: 'nested helpers',
+            query: bucket('exchange').where(
+                Bucket.Or(Bucket.And(['value', '>', 1], ['limit', '<', 5]), Bucket.Not(['name', 'Coins'])),
+            ),
+        },
+        { name: 'grouped where', query: bucket('exchange').where(['name', 'Coins'], ['value', '>', 1]) },
+        { name: 'empty whereIn', query: bucket('exchange').whereIn('id', []) },
+        { name: 'paging', query: bucket('exchange').select('name').paginate(4, 50) },
+    ])('round-trips $name through JSON', ({ query }) => {
+        const revived = BucketQueryBuilder.fromJSON(JSON.parse(JSON.stringify(query)) as BucketQueryAst);
+
+        expect(revived.printSQL()).toBe(query.printSQL());
+        expect(revived.toJSON()).toEqual(query.toJSON());
+    });
+
+    test('returns a builder typed for the serialised bucket', () => {
+        const revived = BucketQueryBuilder.fromJSON(bucket('exchange').toJSON());
+
+        const sql = revived.select('value').where('value', '>', 5).printSQL();
+
+        expect(sql).toContain("bucket('exchange').select('value'");
+    });
+
+    test.each([
+        { name: 'not an object', ast: 'exchange', path: '$' },
+        { name: 'unsupported version', ast: { ...validAst(), version: 2 }, path: 'version' },
+        { name: 'missing bucket', ast: { ...validAst(), bucket: undefined }, path: 'bucket' },
+        {
+            name: 'bad join',
+            ast: { ...validAst(), joins: [{ target: 'exchange', onSource: 1 }] },
+            path: 'joins[0].onSource',
+        },
+        { name: 'bad selector', ast: { ...validAst(), select: ['name', 3] }, path: 'select[1]' },
+        { name: 'where entry not a list', ast: { ...validAst(), where: [{ type: 'null' }] }, path: 'where[0]' },
+        {
+            name: 'bad operator',
+            ast: { ...validAst(), where: [[{ type: 'compare', field: 'id', operator: '==', value: 1 }]] },
+            path: 'where[0][0].operator',
+        },
+        {
+            name: 'bad nested condition',
+            ast: { ...validAst(), where: [[{ type: 'or', conditions: [{ type: 'xor' }] }]] },
+            path: 'where[0][0].conditions[0].type',
+        },
+        {
+            name: 'bad value',
+            ast: { ...validAst(), where: [[{ type: 'compare', field: 'id', value: null }]] },
+            path: 'where[0][0].value',
+        },
+        {
+            name: 'bad direction',
+            ast: { ...validAst(), orderBy: [{ field: 'name', direction: 'up' }] },
+            path: 'orderBy[0].direction',
+        },
+        { name: 'limit out of range', ast: { ...validAst(), limit: 5001 }, path: 'limit' },
+        { name: 'non-numeric offset', ast: { ...validAst(), offset: '10' }, path: 'offset' },
+    ])('rejects $name', ({ ast, path }) => {
+        let error: unknown;
+        try {
+            BucketQueryBuilder.fromJSON(ast as BucketQueryAst);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(BucketQueryAstError);
+        expect(error).toMatchObject({ path });
+    });
+});
+
+describe('clone', () => {
+    test('deep-copies nested conditions', () => {
+        const condition = Bucket.Or(['name', 'Coins'], ['name', 'Abyssal whip']);
+        const base = bucket('exchange').where(condition);
+
+        const copy = base.clone();
+        (condition as { conditions: unknown[] }).conditions.push(['name', 'Mutated']);
+
+        expect(copy.printSQL()).not.toContain('Mutated');
+    });
+});
@@ -1,5 +1,14 @@
 import { jest } from '@jest/globals';
 import { BucketQueryBuilder, bucket } from '../query-builder.js';
+import {
+    BucketValidationError,
+    InvalidLimitError,
+    InvalidOffsetError,
+    InvalidPageError,
+    UnknownAliasError,
+    UnknownBucketError,
+    UnknownFieldError,
+} from '../errors.js';
 import { Bucket, QUERY_DEFAULTS } from '../types.js';
 import { BUCKET_FIELDS } from '../generated/definitions.js';
 
@@ -231,6 +240,42 @@ describe('BucketQueryBuilder', () => {
         });
     });
 
+    describe('versions', () => {
+        test('defaultVersionOnly keeps default and unversioned rows', () => {
+            const sql = bucket('infobox_monster').select('name').defaultVersionOnly().printSQL();
+            expect(sql).toContain(
+                ".where(bucket.Or({ 'default_version', true }, { 'default_version', bucket.Null() }))",
+            );
+        });
+
+        test('version filters on version_anchor', () => {
+            const sql = bucket('infobox_item').select('item_name').version('Full').printSQL();
+            expect(sql).toContain(".where({ 'version_anchor', 'Full' })");
+        });
+
+        test('are only offered on buckets with versions', () => {
+            const check = (): void => {
+                // @ts-expect-error - exchange has no default_version
+                buildQuery().defaultVersionOnly();
+                // @ts-expect-error - infobox_npc has no version_anchor
+                bucket('infobox_npc').version('Level 2');
+            };
+
+            expect(check).toBeDefined();
+            expect(bucket('infobox_npc').defaultVersionOnly().printSQL()).toContain("'default_version'");
+        });
+
+        test('check their fields in strict mode', () => {
+            const unversioned = bucket('exchange', { strict: true }) as unknown as ReturnType<
+                typeof bucket<'infobox_item'>
+            >;
+
+            expect(() => bucket('infobox_item', { strict: true }).defaultVersionOnly().version('Full')).not.toThrow();
+            expect(() => unversioned.defaultVersionOnly()).toThrow(UnknownFieldError);
+            expect(() => unversioned.version('Full')).toThrow(UnknownFieldError);
+        });
+    });
+
     describe('string escaping', () => {
         describe('escapeLuaString unit tests', () => {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
@@ -390,24 +435,35 @@ describe('BucketQueryBuilder', () => {
             spy.mockRestore();
         });
 
-        test('no warning with global wildcard *', () => {
+        test('lint reports a field that is not in selections', () => {
             const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
-            const builder = buildQuery().select('*');
+            const builder = buildQuery().select('id');
             // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-            (builder as any).orderBy('value', 'asc');
-            builder.printSQL();
-            expect(spy).not.toHaveBeenCalled();
+            (builder as any).orderBy('name', 'desc');
+            expect(builder.lint()).toEqual([
+                expect.objectContaining({
+                    code: 'ORDER_BY_NOT_SELECTED',
+                    severity: 'warning',
+                    path: 'orderBy[0]',
+                    message: expect.stringContaining("orderBy field 'name' is not explicitly selected") as string,
+                }),
+            ]);
             spy.mockRestore();
         });
 
-        test('no warning with alias.* that covers the field', () => {
-            const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
-            const builder = buildJoinedQuery().select('src.*');
+        test.each([
+            { name: 'global wildcard *', builder: () => buildQuery().select('*'), field: 'value' },
+            {
+                name: 'alias.* that covers the field',
+                builder: () => buildJoinedQuery().select('src.*'),
+                field: 'src.name',
+            },
+            { name: 'no selections', builder: () => buildQuery(), field: 'id' },
+        ])('lint accepts ordering with $name', ({ builder, field }) => {
+            const query = builder();
             // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-            (builder as any).orderBy('src.name', 'asc');
-            builder.printSQL();
-            expect(spy).not.toHaveBeenCalled();
-            spy.mockRestore();
+            (query as any).orderBy(field, 'asc');
+            expect(query.lint()).toEqual([]);
         });
 
         test('alias.* does not cover unrelated prefix', () => {
@@ -415,19 +471,11 @@ describe('BucketQueryBuilder', () => {
             const builder = buildJoinedQuery().select('src.*');
             // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
             (builder as any).orderBy('other.name', 'desc');
-            builder.printSQL();
+            expect(builder.lint().map((d) => d.code)).toEqual(['UNKNOWN_ALIAS', 'ORDER_BY_NOT_SELECTED']);
             expect(spy).toHaveBeenCalled();
             spy.mockRestore();
         });
 
-        test('no warning when no selections exist', () => {
-            const spy = jest.spyOn(console, 'warn').mockImplementation(() => {});
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-            (buildQuery() as any).orderBy('id', 'asc');
-            expect(spy).not.toHaveBeenCalled();
-            spy.mockRestore();
-        });
-
         test('resolves alias in output', () => {
             const sql = buildJoinedQuery().select('src.name').orderBy('src.name', 'desc').printSQL();
             expect(sql).toContain(".orderBy('exchange.name', 'desc')");
@@ -508,6 +556,27 @@ describe('BucketQueryBuilder', () => {
             expect(clonedSql).not.toContain("{ 'id', 2 }");
             expect(clonedSql).toContain("{ 'id', 1 }");
         });
+
+        test.each([
+            { name: 'a fractional limit', build: () => bucket('exchange').limit(2.5) },
+            { name: 'a NaN offset', build: () => bucket('exchange').offset(NaN) },
+            {
+                name: 'infinite and NaN values',
+                build: () => bucket('exchange').where(['value', '<', Infinity], ['limit', '!=', NaN]),
+            },
+        ])('copies $name without throwing', ({ build }) => {
+            const original = build();
+
+            expect(original.clone().printSQL()).toBe(original.printSQL());
+        });
+
+        test('gives the copy the options it is passed', () => {
+            const original = bucket('exchange', { strict: false }).select('name');
+            const strict = original.clone({ strict: true });
+
+            expect(() => strict.limit(2.5)).toThrow(InvalidLimitError);
+            expect(() => original.limit(2.5)).not.toThrow();
+        });
     });
 
     describe('run', () => {
@@ -567,4 +636,145 @@ describe('BucketQueryBuilder', () => {
             expect(offsetIdx).toBeLessThan(runIdx);
         });
     });
+
+    describe('strict mode', () => {
+        function strict(): ReturnType<typeof bucket<'exchange'>> {
+            return bucket('exchange', { strict: true });
+        }
+
+        function catchError(call: () => unknown): unknown {
+            try {
+                call();
+            } catch (e) {
+                return e;
+            }
+            return undefined;
+        }
+
+        test.each([
+            { name: 'limit(0)', call: () => strict().limit(0), error: InvalidLimitError, argument: 0 },
+            { name: 'limit(-5)', call: () => strict().limit(-5), error: InvalidLimitError, argument: -5 },
+            { name: 'limit(2.5)', call: () => strict().limit(2.5), error: InvalidLimitError, argument: 2.5 },
+            { name: 'offset(-1)', call: () => strict().offset(-1), error: InvalidOffsetError, argument: -1 },
+            { name: 'paginate(-3, 10)', call: () => strict().paginate(-3, 10), error: InvalidPageError, argument: -3 },
+            { name: 'paginate(2, 0)', call: () => strict().paginate(2, 0), error: InvalidLimitError, argument: 0 },
+            {
+                name: 'unknown main bucket',
+                call: () => bucket('nope' as 'exchange', { strict: true }),
+                error: UnknownBucketError,
+                argument: 'nope',
+            },
+            {
+                name: 'join on an unknown bucket',
+                call: () => strict().join('nope' as 'exchange', 'id', 'id'),
+                error: UnknownBucketError,
+                argument: 'nope',
+            },
+            {
+                name: 'join on an unknown alias',
+                call: () => strict().join('exchange', 'src', 'other.id', 'name'),
+                error: UnknownAliasError,
+                argument: 'other.id',
+            },
+            {
+                name: 'join on an unknown target field',
+                call: () => strict().join('exchange', 'src', 'id', 'title'),
+                error: UnknownFieldError,
+                argument: 'title',
+            },
+            {
+                name: 'select on an unknown alias',
+                call: () => strict().select('other.name' as 'name'),
+                error: UnknownAliasError,
+                argument: 'other.name',
+            },
+            {
+                name: 'select of an unknown field',
+                call: () => strict().select('weight' as 'name'),
+                error: UnknownFieldError,
+                argument: 'weight',
+            },
+            {
+                name: 'where on an unknown field inside a helper',
+                call: () => strict().where(Bucket.Or(['name', 'Coins'], Bucket.Not(['weight', 1]))),
+                error: UnknownFieldError,
+                argument: 'weight',
+            },
+            {
+                name: 'whereIn on an unknown field',
+                call: () => strict().whereIn('nope' as 'name', [1]),
+                error: UnknownFieldError,
+                argument: 'nope',
+            },
+            {
+                name: 'whereIn on an unknown field without values',
+                call: () => strict().whereIn('nope' as 'name', []),
+                error: UnknownFieldError,
+                argument: 'nope',
+            },
+            {
+                name: 'orderBy on an unknown field',
+                call: () =>
+                    strict()
+                        .select('name')
+                        .orderBy('nope' as 'name', 'asc'),
+                error: UnknownFieldError,
+                argument: 'nope',
+            },
+            {
+                name: 'orderBy on an unknown alias',
+                call: () =>
+                    strict()
+                        .select('name')
+                        .orderBy('other.name' as 'name', 'asc'),
+                error: UnknownAliasError,
+                argument: 'other.name',
+            },
+        ])('$name throws', ({ call, error, argument }) => {
+            const thrown = catchError(call);
+
+            expect(thrown).toBeInstanceOf(error);
+            expect(thrown).toBeInstanceOf(BucketValidationError);
+            expect(thrown).toMatchObject({ name: error.name, argument });
+        });
+
+        test('carries the resolved bucket and alias', () => {
+            expect(catchError(() => strict().join('exchange', 'src', 'id', 'src.title'))).toMatchObject({
+                bucket: 'exchange',
+                message: "Unknown field 'src.title' in bucket 'exchange'",
+            });
+            expect(catchError(() => strict().select('src.*' as 'name'))).toMatchObject({
+                alias: 'src',
+                message: "Unknown alias 'src' in 'src.*'",
+            });
+        });
+
+        test('does not modify the builder when a call throws', () => {
+            const query = strict().select('name');
+
+            expect(() => query.where('weight' as 'name', 1)).toThrow(UnknownFieldError);
+            expect(() => query.join('exchange', 'src', 'id', 'title')).toThrow(UnknownFieldError);
+            expect(() => query.whereIn('nope' as 'name', ['Coins'])).toThrow(UnknownFieldError);
+            expect(() => query.orderBy('nope' as 'name', 'asc')).toThrow(UnknownFieldError);
+            expect(query.printSQL()).toBe(strict().select('name').printSQL());
+        });
+
+        test('accepts valid usage', () => {
+            const sql = strict()
+                .join('infobox_item', 'item', 'name', 'item_name')
+                .select('name', 'item.weight', 'infobox_item.is_members_only', 'item.*', 'page_name')
+                .where('item.weight', '>', 1)
+                .whereIn('id', [1, 2])
+                .whereNotNull('exchange.value')
+                .orderBy('name', 'asc')
+                .paginate(2, 50)
+                .printSQL();
+
+            expect(sql).toContain('.limit(50).offset(50)');
+        });
+
+        test('is off by default', () => {
+            expect(buildQuery().limit(0).paginate(-3, 10).printSQL()).toBe("bucket('exchange').limit(10).run()");
+        });
+    });
 });
@@ -0,0 +1,131 @@
+import { silentLogger } from '../diagnostics.js';
+import { BucketQueryAstError } from '../errors.js';
+import type { BucketQueryAst } from '../query-ast.js';
+import { bucket } from '../query-builder.js';
+import { validateQuery } from '../query-lint.js';
+import type { QueryDiagnostic } from '../query-lint.js';
+import { Bucket } from '../types.js';
+
+function summarise(diagnostics: QueryDiagnostic[]): string[] {
+    return diagnostics.map((d) => `${d.severity} ${d.code} at ${d.path}`);
+}
+
+describe('validateQuery', () => {
+    test.each([
+        { name: 'plain query', query: bucket('exchange').select('name', 'value').where('value', '>', 1000) },
+        {
+            name: 'aliased join',
+            query: bucket('infobox_item')
+                .join('exchange', 'ex', 'item_name', 'name')
+                .select('item_name', 'ex.value')
+                .where('ex.value', '>=', 5)
+                .orderBy('ex.value', 'desc'),
+        },
+        {
+            name: 'join referenced by bucket name',
+            query: bucket('infobox_item').join('exchange', 'ex', 'item_name', 'exchange.name').select('exchange.*'),
+        },
+        {
+            name: 'helpers, null checks and meta fields',
+            query: bucket('exchange')
+                .select('*')
+                .where(Bucket.Or(['is_alchable', true], Bucket.Not(['limit', '<', 10])))
+                .whereNull('module')
+                .where('page_name', 'Coins')
+                .orderBy('page_name', 'asc'),
+        },
+        { name: 'equality on repeated fields', query: bucket('testing_bucket').where('TEXT_R', 'a') },
+    ])('accepts $name', ({ query }) => {
+        expect(query.lint()).toEqual([]);
+    });
+
+    test.each([
+        {
+            name: 'unknown main bucket',
+            ast: { ...bucket('exchange').toJSON(), bucket: 'nope' },
+            expected: ['error UNKNOWN_BUCKET at bucket'],
+        },
+        {
+            name: 'unknown joined bucket',
+            ast: bucket('exchange')
+                .join('nope' as 'exchange', 'id', 'id')
+                .toJSON(),
+            expected: ['error UNKNOWN_BUCKET at joins[0]'],
+        },
+        {
+            name: 'join on a missing field',
+            ast: bucket('infobox_item').join('exchange', 'item_name', 'title').toJSON(),
+            expected: ['error UNKNOWN_FIELD at joins[0]'],
+        },
+        {
+            name: 'unknown select alias',
+            ast: bucket('exchange')
+                .select('ex.*' as 'name')
+                .toJSON(),
+            expected: ['error UNKNOWN_ALIAS at select[0]'],
+        },
+        {
+            name: 'unknown field in a nested condition',
+            ast: bucket('exchange')
+                .where('value', 1)
+                .where(Bucket.And(['value', 1], Bucket.Not(['weight', 1])))
+                .toJSON(),
+            expected: ['error UNKNOWN_FIELD at where[1][0].conditions[1].condition'],
+        },
+        {
+            name: "'>' on a boolean field",
+            ast: bucket('exchange').where('is_alchable', '>', true).toJSON(),
+            expected: ['error INVALID_OPERATOR at where[0][0]'],
+        },
+        {
+            name: "'>' on a repeated field",
+            ast: bucket('testing_bucket').where('TEXT_R', '>', 'a').toJSON(),
+            expected: ['error INVALID_OPERATOR at where[0][0]'],
+        },
+        {
+            name: 'value of the wrong type',
+            ast: bucket('exchange').where('value', '>', '1000').toJSON(),
+            expected: ['warning VALUE_TYPE_MISMATCH at where[0][0]'],
+        },
+        {
+            name: 'ordering by an unselected field',
+            ast: bucket('exchange', { logger: silentLogger })
+                .select('name')
+                .orderBy('name', 'asc')
+                .orderBy('value' as 'name', 'asc')
+                .toJSON(),
+            expected: ['warning ORDER_BY_NOT_SELECTED at orderBy[1]'],
+        },
+    ])('reports $name', ({ ast, expected }) => {
+        expect(summarise(validateQuery(ast))).toEqual(expected);
+    });
+
+    test('describes the offending clause', () => {
+        const [diagnostic] = bucket('testing_bucket').where('TEXT_R', '>', 'a').lint();
+
+        expect(diagnostic).toEqual({
+            code: 'INVALID_OPERATOR',
+            severity: 'error',
+            message: "Operator '>' cannot be used on repeated TEXT field 'TEXT_R'",
+            path: 'where[0][0]',
+            clause: { type: 'compare', field: 'TEXT_R', operator: '>', value: 'a' },
+        });
+    });
+
+    test('reports every problem in clause order', () => {
+        const query = bucket('exchange', { logger: silentLogger })
+            .select('name')
+            .where('is_alchable', '<=', 'yes')
+            .orderBy('value' as 'name', 'desc');
+
+        expect(summarise(query.lint())).toEqual([
+            'error INVALID_OPERATOR at where[0][0]',
+            'warning VALUE_TYPE_MISMATCH at where[0][0]',
+            'warning ORDER_BY_NOT_SELECTED at orderBy[0]',
+        ]);
+    });
+
+    test('rejects malformed ASTs', () => {
+        expect(() => validateQuery({ version: 1 } as BucketQueryAst)).toThrow(BucketQueryAstError);
+    });
+});
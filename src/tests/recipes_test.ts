@@ -0,0 +1,200 @@
+import { RecipeCycleError } from '../errors.js';
+import { RecipeGraph, fetchRecipeGraph, toCraftingRecipe } from '../recipes.js';
+import type { CraftingRecipe } from '../recipes.js';
+import { stubExecutor } from './helpers/stub-executor.js';
+
+function recipe(
+    output: string,
+    materials: Record<string, number>,
+    extra: Partial<CraftingRecipe> = {},
+): CraftingRecipe {
+    return {
+        page: output,
+        output: { name: output, quantity: 1 },
+        materials: Object.entries(materials).map(([name, quantity]) => ({ name, quantity })),
+        tools: [],
+        facilities: [],
+        skills: [],
+        members: true,
+        ticks: undefined,
+        ...extra,
+    };
+}
+
+const RECIPES = [
+    recipe('Rune platebody', { 'Runite bar': 5 }, { tools: ['Hammer'], facilities: ['Anvil'] }),
+    recipe('Runite bar', { 'Runite ore': 1, Coal: 8 }, { facilities: ['Furnace'] }),
+    recipe('Rune arrowtips', { 'Runite bar': 1 }, { output: { name: 'Rune arrowtips', quantity: 15 } }),
+    recipe('Rune arrow', { 'Rune arrowtips': 1, 'Headless arrow': 1 }),
+];
+
+describe('RecipeGraph', () => {
+    const graph = new RecipeGraph(RECIPES);
+
+    test('indexes recipes by output and by what they use', () => {
+        expect(graph.recipesFor('Runite bar').map((r) => r.page)).toEqual(['Runite bar']);
+        expect(graph.recipesFor('Runite ore')).toEqual([]);
+        expect(graph.recipesUsing('Runite bar').map((r) => r.page)).toEqual(['Rune platebody', 'Rune arrowtips']);
+        expect(graph.recipesUsing('Hammer').map((r) => r.page)).toEqual(['Rune platebody']);
+        expect(graph.recipesUsing('Furnace').map((r) => r.page)).toEqual(['Runite bar']);
+    });
+
+    test('expands an item into its material tree', () => {
+        const tree = graph.materialTree('Rune platebody', 2);
+
+        expect(tree).toMatchObject({
+            item: 'Rune platebody',
+            quantity: 2,
+            inputs: [
+                {
+                    item: 'Runite bar',
+                    quantity: 10,
+                    inputs: [
+                        { item: 'Runite ore', quantity: 10, recipe: undefined, inputs: [] },
+                        { item: 'Coal', quantity: 80, recipe: undefined, inputs: [] },
+                    ],
+                },
+            ],
+        });
+    });
+
+    test('sums raw materials, scaling by output quantity', () => {
+        expect(graph.rawMaterials('Rune platebody')).toEqual(
+            new Map([
+                ['Runite ore', 5],
+                ['Coal', 40],
+            ]),
+        );
+        expect(graph.rawMaterials('Rune arrow', 30)).toEqual(
+            new Map([
+                ['Runite ore', 2],
+                ['Coal', 16],
+                ['Headless arrow', 30],
+            ]),
+        );
+    });
+
+    test('lets the caller choose recipes or stop at an item', () => {
+        const raw = graph.rawMaterials('Rune platebody', 1, {
+            choose: (recipes, item) => (item === 'Runite bar' ? undefined : recipes[0]),
+        });
+
+        expect(raw).toEqual(new Map([['Runite bar', 5]]));
+    });
+
+    test('treats an output quantity of 0 as making one', () => {
+        const zero = new RecipeGraph([recipe('Plank', { Logs: 1 }, { output: { name: 'Plank', quantity: 0 } })]);
+
+        expect(zero.rawMaterials('Plank', 3)).toEqual(new Map([['Logs', 3]]));
+    });
+
+    describe('cycles', () => {
+        const cyclic = new RecipeGraph([
+            ...RECIPES,
+            recipe('Ancient essence', { 'Ancient shard': 1 }),
+            recipe('Ancient shard', { 'Ancient essence': 2 }),
+        ]);
+
+        test('findCycles reports each loop', () => {
+            expect(graph.findCycles()).toEqual([]);
+            expect(cyclic.findCycles()).toEqual([['Ancient essence', 'Ancient shard', 'Ancient essence']]);
+        });
+
+        test('materialTree throws with the loop', () => {
+            let error: unknown;
+            try {
+                cyclic.materialTree('Ancient shard');
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).toBeInstanceOf(RecipeCycleError);
+            expect(error).toMatchObject({
+                cycle: ['Ancient shard', 'Ancient essence', 'Ancient shard'],
+                message: 'Recipe cycle: Ancient shard → Ancient essence → Ancient shard',
+            });
+        });
+    });
+});
+
+describe('toCraftingRecipe', () => {
+    const row = {
+        page_name: 'Bronze dagger',
+        uses_material: ['Bronze bar'],
+        uses_tool: ['Hammer'],
+        uses_facility: ['Anvil'],
+        uses_skill: ['Smithing'],
+        is_members_only: false,
+    };
+
+    test('reads quantities, tools and skills from production_json', () => {
+        const parsed = toCraftingRecipe({
+            ...row,
+            production_json: {
+                ticks: '4',
+                tools: 'Hammer, Ammo mould',
+                facilities: 'Anvil',
+                materials: [{ name: 'Bronze bar', quantity: '1' }],
+                skills: [{ name: 'Smithing', level: '1', experience: '12.5' }],
+                output: { name: 'Bronze dagger', quantity: '1' },
+            },
+        });
+
+        expect(parsed).toEqual({
+            page: 'Bronze dagger',
+            output: { name: 'Bronze dagger', quantity: 1 },
+            materials: [{ name: 'Bronze bar', quantity: 1 }],
+            tools: ['Hammer', 'Ammo mould'],
+            facilities: ['Anvil'],
+            skills: [{ name: 'Smithing', level: 1, experience: 12.5 }],
+            members: false,
+            ticks: 4,
+        });
+    });
+
+    test('falls back to the uses_* lists', () => {
+        expect(toCraftingRecipe({ ...row, production_json: null })).toEqual({
+            page: 'Bronze dagger',
+            output: { name: 'Bronze dagger', quantity: 1 },
+            materials: [{ name: 'Bronze bar', quantity: 1 }],
+            tools: ['Hammer'],
+            facilities: ['Anvil'],
+            skills: [{ name: 'Smithing', level: undefined, experience: undefined }],
+            members: false,
+            ticks: undefined,
+        });
+    });
+});
+
+describe('fetchRecipeGraph', () => {
+    test('loads every recipe and reports malformed production_json', async () => {
+        const base = { uses_tool: [], uses_facility: [], uses_skill: [], is_members_only: true, page_name_sub: '' };
+        const executor = stubExecutor(() => [
+            {
+                ...base,
+                page_name: 'Runite bar',
+                uses_material: ['Runite ore', 'Coal'],
+                production_json: JSON.stringify({
+                    materials: [
+                        { name: 'Runite ore', quantity: '1' },
+                        { name: 'Coal', quantity: '8' },
+                    ],
+                    output: { name: 'Runite bar', quantity: '1' },
+                }),
+            },
+            { ...base, page_name: 'Rune platebody', uses_material: ['Runite bar'], production_json: '{' },
+        ]);
+
+        const { graph, failures } = await fetchRecipeGraph({ executor });
+
+        expect(executor.calls).toHaveLength(1);
+        expect(executor.calls[0]).toMatch(/^bucket\('recipe'\)\.select\('uses_material'/);
+        expect(failures).toMatchObject([{ row: 1, field: 'production_json' }]);
+        expect(graph.rawMaterials('Rune platebody', 2)).toEqual(
+            new Map([
+                ['Runite ore', 2],
+                ['Coal', 16],
+            ]),
+        );
+    });
+});
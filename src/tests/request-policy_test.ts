@@ -0,0 +1,313 @@
+import type { BucketHttpRequest, BucketHttpResponse, BucketTransport } from '../client.js';
+import { BucketClient } from '../client.js';
+import { BucketHttpError } from '../errors.js';
+import { bucket } from '../query-builder.js';
+import { parseRetryAfter, withRequestPolicy } from '../request-policy.js';
+import type { RequestPolicyOptions } from '../request-policy.js';
+
+const REQUEST: BucketHttpRequest = { method: 'GET', url: 'https://example.test', headers: {} };
+
+const OK: BucketHttpResponse = { status: 200, headers: {}, body: { bucketQuery: 'q', bucket: [] } };
+
+/**
+ * Transport that replays the given outcomes in order. An `Error` entry is
+ * thrown as a network failure; the last outcome repeats forever.
+ */
+function scriptedTransport(outcomes: Array<BucketHttpResponse | Error>): BucketTransport & { calls: number } {
+    const transport = Object.assign(
+        (): Promise<BucketHttpResponse> => {
+            const outcome = outcomes[Math.min(transport.calls, outcomes.length - 1)];
+            transport.calls++;
+            return outcome instanceof Error || outcome === undefined
+                ? Promise.reject(outcome ?? new Error('no outcome'))
+                : Promise.resolve(outcome);
+        },
+        { calls: 0 },
+    );
+    return transport;
+}
+
+interface FakeClock {
+    options: Pick<RequestPolicyOptions, 'now' | 'sleep' | 'random'>;
+    sleeps: number[];
+    time: () => number;
+}
+
+/** A clock whose `sleep` advances time instantly and records the delay. */
+function fakeClock(): FakeClock {
+    let time = 0;
+    const sleeps: number[] = [];
+    return {
+        sleeps,
+        time: () => time,
+        options: {
+            now: () => time,
+            sleep: (ms) => {
+                sleeps.push(ms);
+                time += ms;
+                return Promise.resolve();
+            },
+            random: () => 0.5,
+        },
+    };
+}
+
+function status(code: number, headers: Record<string, string> = {}): BucketHttpResponse {
+    return { status: code, headers, body: 'error' };
+}
+
+describe('withRequestPolicy', () => {
+    describe('retries', () => {
+        test.each([
+            { name: '429', code: 429 },
+            { name: '500', code: 500 },
+            { name: '503', code: 503 },
+        ])('retries a $name response until it succeeds', async ({ code }) => {
+            const transport = scriptedTransport([status(code), status(code), OK]);
+            const clock = fakeClock();
+
+            const response = await withRequestPolicy(transport, clock.options)(REQUEST);
+
+            expect(response).toBe(OK);
+            expect(transport.calls).toBe(3);
+        });
+
+        test.each([
+            { name: '400', code: 400 },
+            { name: '404', code: 404 },
+        ])('does not retry a $name response', async ({ code }) => {
+            const transport = scriptedTransport([status(code), OK]);
+
+            const response = await withRequestPolicy(transport, fakeClock().options)(REQUEST);
+
+            expect(response.status).toBe(code);
+            expect(transport.calls).toBe(1);
+        });
+
+        test('retries network failures', async () => {
+            const transport = scriptedTransport([new Error('ECONNRESET'), OK]);
+
+            const response = await withRequestPolicy(transport, fakeClock().options)(REQUEST);
+
+            expect(response).toBe(OK);
+        });
+
+        test('returns the last response once retries are exhausted', async () => {
+            const transport = scriptedTransport([status(503)]);
+
+            const response = await withRequestPolicy(transport, { ...fakeClock().options, maxRetries: 2 })(REQUEST);
+
+            expect(response.status).toBe(503);
+            expect(transport.calls).toBe(3);
+        });
+
+        test('rethrows the last network error once retries are exhausted', async () => {
+            const transport = scriptedTransport([new Error('ECONNRESET')]);
+
+            await expect(
+                withRequestPolicy(transport, { ...fakeClock().options, maxRetries: 1 })(REQUEST),
+            ).rejects.toThrow('ECONNRESET');
+        });
+
+        test('supports a custom retry predicate', async () => {
+            const transport = scriptedTransport([status(418), OK]);
+
+            const response = await withRequestPolicy(transport, {
+                ...fakeClock().options,
+                shouldRetry: (code) => code === 418,
+            })(REQUEST);
+
+            expect(response).toBe(OK);
+        });
+
+        test('surfaces exhausted retries as a BucketHttpError through the client', async () => {
+            const transport = withRequestPolicy(scriptedTransport([status(502)]), {
+                ...fakeClock().options,
+                maxRetries: 1,
+            });
+
+            await expect(new BucketClient({ transport }).execute(bucket('exchange'))).rejects.toBeInstanceOf(
+                BucketHttpError,
+            );
+        });
+    });
+
+    describe('backoff', () => {
+        test('grows exponentially with full jitter and caps at maxDelayMs', async () => {
+            const transport = scriptedTransport([status(500)]);
+            const clock = fakeClock();
+
+            await withRequestPolicy(transport, {
+                ...clock.options,
+                maxRetries: 5,
+                baseDelayMs: 100,
+                maxDelayMs: 1000,
+            })(REQUEST);
+
+            expect(clock.sleeps).toEqual([50, 100, 200, 400, 500]);
+        });
+
+        test('honours Retry-After in seconds', async () => {
+            const transport = scriptedTransport([status(429, { 'retry-after': '7' }), OK]);
+            const clock = fakeClock();
+
+            await withRequestPolicy(transport, clock.options)(REQUEST);
+
+            expect(clock.sleeps).toEqual([7000]);
+        });
+
+        test('honours Retry-After as an HTTP date', async () => {
+            const retryAt = new Date(Date.UTC(2025, 0, 1, 0, 0, 30)).toUTCString();
+            const transport = scriptedTransport([status(503, { 'retry-after': retryAt }), OK]);
+            const clock = fakeClock();
+            const start = Date.UTC(2025, 0, 1, 0, 0, 0);
+
+            await withRequestPolicy(transport, { ...clock.options, now: () => start + clock.time() })(REQUEST);
+
+            expect(clock.sleeps).toEqual([30000]);
+        });
+
+        test('caps Retry-After at maxDelayMs', async () => {
+            const transport = scriptedTransport([status(429, { 'retry-after': '3600' }), OK]);
+            const clock = fakeClock();
+
+            await withRequestPolicy(transport, { ...clock.options, maxDelayMs: 5000 })(REQUEST);
+
+            expect(clock.sleeps).toEqual([5000]);
+        });
+    });
+
+    describe('hooks', () => {
+        test('reports every attempt, its outcome and each retry', async () => {
+            const transport = scriptedTransport([status(503), OK]);
+            const events: string[] = [];
+
+            await withRequestPolicy(transport, {
+                ...fakeClock().options,
+                baseDelayMs: 100,
+                hooks: {
+                    onAttempt: ({ attempt }) => events.push(`attempt ${String(attempt)}`),
+                    onAttemptComplete: ({ attempt, response }) =>
+                        events.push(`complete ${String(attempt)} ${String(response?.status)}`),
+                    onRetry: ({ attempt, delayMs }) => events.push(`retry ${String(attempt)} ${String(delayMs)}`),
+                },
+            })(REQUEST);
+
+            expect(events).toEqual(['attempt 1', 'complete 1 503', 'retry 1 50', 'attempt 2', 'complete 2 200']);
+        });
+
+        test('reports network errors on the completion event', async () => {
+            const transport = scriptedTransport([new Error('boom'), OK]);
+            const errors: unknown[] = [];
+
+            await withRequestPolicy(transport, {
+                ...fakeClock().options,
+                hooks: { onAttemptComplete: ({ error }) => errors.push(error) },
+            })(REQUEST);
+
+            expect(errors).toEqual([new Error('boom'), undefined]);
+        });
+
+        test('releases the concurrency slot when onAttempt throws', async () => {
+            const transport = scriptedTransport([OK]);
+            let calls = 0;
+            const policy = withRequestPolicy(transport, {
+                ...fakeClock().options,
+                concurrency: 1,
+                hooks: {
+                    onAttempt: () => {
+                        if (calls++ === 0) throw new Error('hook failed');
+                    },
+                },
+            });
+
+            await expect(policy(REQUEST)).rejects.toThrow('hook failed');
+            await expect(policy(REQUEST)).resolves.toBe(OK);
+        });
+    });
+
+    describe('concurrency', () => {
+        test('never exceeds the configured number of in-flight requests', async () => {
+            let inFlight = 0;
+            let peak = 0;
+            const transport: BucketTransport = async () => {
+                inFlight++;
+                peak = Math.max(peak, inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                inFlight--;
+                return OK;
+            };
+            const policy = withRequestPolicy(transport, { concurrency: 2 });
+
+            await Promise.all(Array.from({ length: 6 }, () => policy(REQUEST)));
+
+            expect(peak).toBe(2);
+        });
+    });
+
+    describe('rate limiting', () => {
+        test('allows a burst and then spaces requests by the refill rate', async () => {
+            const transport = scriptedTransport([OK]);
+            const clock = fakeClock();
+            const policy = withRequestPolicy(transport, {
+                ...clock.options,
+                concurrency: 10,
+                rateLimit: { requestsPerSecond: 2, burst: 2 },
+            });
+
+            await Promise.all(Array.from({ length: 4 }, () => policy(REQUEST)));
+
+            expect(transport.calls).toBe(4);
+            expect(clock.sleeps).toEqual([500, 500]);
+        });
+
+        test.each([
+            { name: 'below one request per second', rateLimit: { requestsPerSecond: 0.5 } },
+            { name: 'with a burst below 1', rateLimit: { requestsPerSecond: 0.5, burst: 0.2 } },
+        ])('holds at least one token $name', async ({ rateLimit }) => {
+            const transport = scriptedTransport([OK]);
+            const clock = fakeClock();
+            const sent: number[] = [];
+            const policy = withRequestPolicy(
+                (request) => {
+                    sent.push(clock.time());
+                    return transport(request);
+                },
+                { ...clock.options, rateLimit },
+            );
+
+            for (let i = 0; i < 3; i++) await policy(REQUEST);
+
+            expect(sent).toEqual([0, 2000, 4000]);
+        });
+
+        test('refills tokens while idle', async () => {
+            const transport = scriptedTransport([OK]);
+            const clock = fakeClock();
+            const policy = withRequestPolicy(transport, {
+                ...clock.options,
+                rateLimit: { requestsPerSecond: 1 },
+            });
+
+            await policy(REQUEST);
+            await clock.options.sleep?.(1000);
+            await policy(REQUEST);
+
+            expect(clock.sleeps).toEqual([1000]);
+        });
+    });
+});
+
+describe('parseRetryAfter', () => {
+    test.each([
+        { name: 'missing header', value: undefined, expected: undefined },
+        { name: 'empty header', value: ' ', expected: undefined },
+        { name: 'delta seconds', value: '2', expected: 2000 },
+        { name: 'negative seconds', value: '-5', expected: 0 },
+        { name: 'HTTP date', value: 'Wed, 01 Jan 2025 00:01:00 GMT', expected: 60000 },
+        { name: 'date in the past', value: 'Tue, 31 Dec 2024 00:00:00 GMT', expected: 0 },
+        { name: 'garbage', value: 'soon', expected: undefined },
+    ])('$name', ({ value, expected }) => {
+        expect(parseRetryAfter(value, Date.UTC(2025, 0, 1))).toBe(expected);
+    });
+});
@@ -4,7 +4,7 @@ import { fileURLToPath } from 'node:url';
 import { bucket } from '../query-builder.js';
 import { BucketResponse } from '../types.js';
 import type { BucketApiResponse } from '../types.js';
-import type { InferBucketResult, BucketMetaFields } from '../response-types.js';
+import type { InferBucketResult, BucketMetaFields, NestedRow } from '../response-types.js';
 
 const currentDir = dirname(fileURLToPath(import.meta.url));
 
@@ -38,7 +38,7 @@ describe('InferBucketResult', () => {
                 page_name_sub: '',
             };
 
-            assertType<{ id: number; name: string; value: number } & BucketMetaFields>(mockRow);
+            assertType<{ id: number | null; name: string | null; value: number | null } & BucketMetaFields>(mockRow);
             expect(mockRow.id).toBe(4151);
             expect(mockRow.name).toBe('Abyssal whip');
         });
@@ -102,7 +102,9 @@ describe('InferBucketResult', () => {
                 page_name_sub: '',
             };
 
-            assertType<{ sold_by: string; sold_item: string; 'exchange.value': number } & BucketMetaFields>(mockRow);
+            assertType<
+                { sold_by: string | null; sold_item: string | null; 'exchange.value': number | null } & BucketMetaFields
+            >(mockRow);
             expect(mockRow['exchange.value']).toBe(1);
         });
     });
@@ -123,7 +125,9 @@ describe('InferBucketResult', () => {
                 page_name_sub: '',
             };
 
-            assertType<{ item_name: string; weight: number; 'ex.value': number } & BucketMetaFields>(mockRow);
+            assertType<
+                { item_name: string | null; weight: number | null; 'ex.value': number | null } & BucketMetaFields
+            >(mockRow);
             expect(mockRow['ex.value']).toBe(120001);
         });
     });
@@ -166,13 +170,166 @@ describe('InferBucketResult', () => {
                 page_name_sub: '',
             };
 
-            assertType<{ id: number } & { name: string } & BucketMetaFields>(mockRow);
+            assertType<{ id: number | null } & { name: string | null } & BucketMetaFields>(mockRow);
             expect(mockRow.id).toBe(4151);
             expect(mockRow.name).toBe('Abyssal whip');
         });
     });
 });
 
+describe('nullable fields', () => {
+    test('scalar fields include null and repeated fields stay arrays', () => {
+        const query = bucket('infobox_item').select('item_name', 'quest', 'item_id');
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = {
+            item_name: 'Abyssal whip',
+            quest: null,
+            item_id: ['4151'],
+            page_name: 'Abyssal whip',
+            page_name_sub: '',
+        };
+
+        assertType<{ item_name: string | null; quest: string | null; item_id: string[] } & BucketMetaFields>(mockRow);
+        expect(mockRow.quest).toBeNull();
+    });
+
+    test('whereNotNull narrows the filtered field only', () => {
+        const query = bucket('infobox_item').select('item_name', 'weight').whereNotNull('weight');
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = { item_name: null, weight: 0.453, page_name: 'Abyssal whip', page_name_sub: '' };
+
+        assertType<{ item_name: string | null; weight: number } & BucketMetaFields>(mockRow);
+        const weight: number = mockRow.weight;
+        expect(weight).toBe(0.453);
+    });
+
+    test('whereNotNull before select carries over to the selected fields', () => {
+        const query = bucket('exchange').whereNotNull('value').select('name', 'value');
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = { name: 'Abyssal whip', value: 120001, page_name: 'Abyssal whip', page_name_sub: '' };
+
+        const value: number = mockRow.value;
+        assertType<string | null>(mockRow.name);
+        expect(value).toBe(120001);
+    });
+
+    test('whereNotNull narrows joined fields', () => {
+        const query = bucket('infobox_item')
+            .join('exchange', 'ex', 'item_name', 'name')
+            .select('item_name', 'ex.value')
+            .whereNotNull('ex.value')
+            .whereNotNull('item_name');
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = {
+            item_name: 'Abyssal whip',
+            'ex.value': 120001,
+            page_name: 'Abyssal whip',
+            page_name_sub: '',
+        };
+
+        assertType<{ item_name: string; 'ex.value': number } & BucketMetaFields>(mockRow);
+        expect(query.printSQL()).toContain(".where({ 'exchange.value', '!=', bucket.Null() })");
+    });
+});
+
+describe('equality narrowing', () => {
+    test('where narrows a selected field to the literal value', () => {
+        const query = bucket('exchange')
+            .select('name', 'is_alchable', 'value')
+            .where('name', 'Abyssal whip')
+            .where('is_alchable', true);
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = {
+            name: 'Abyssal whip',
+            is_alchable: true,
+            value: null,
+            page_name: 'Abyssal whip',
+            page_name_sub: '',
+        };
+
+        assertType<{ name: 'Abyssal whip'; is_alchable: true; value: number | null } & BucketMetaFields>(mockRow);
+        const alchable: true = mockRow.is_alchable;
+        expect(alchable).toBe(true);
+    });
+
+    test('only the = operator narrows', () => {
+        const query = bucket('exchange').select('id', 'value').where('id', '=', 4151).where('value', '>', 1000);
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = { id: 4151, value: 120001, page_name: 'Abyssal whip', page_name_sub: '' };
+
+        assertType<{ id: 4151; value: number | null } & BucketMetaFields>(mockRow);
+        expect(mockRow.id).toBe(4151);
+    });
+
+    test('whereIn narrows to the union of the values', () => {
+        const query = bucket('exchange').select('name').whereIn('name', ['Bronze axe', 'Iron axe']);
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const rows: Result[] = [
+            { name: 'Bronze axe', page_name: 'Bronze axe', page_name_sub: '' },
+            { name: 'Iron axe', page_name: 'Iron axe', page_name_sub: '' },
+        ];
+
+        const names: Array<'Bronze axe' | 'Iron axe'> = rows.map((row) => row.name);
+        expect(names).toEqual(['Bronze axe', 'Iron axe']);
+    });
+
+    test('enables discriminated handling across queries without casts', () => {
+        const members = bucket('infobox_item').select('item_name', 'is_members_only').where('is_members_only', true);
+        const free = bucket('infobox_item').select('item_name', 'is_members_only').where('is_members_only', false);
+        expect([members, free]).toHaveLength(2);
+        type Row = InferBucketResult<typeof members> | InferBucketResult<typeof free>;
+
+        const describeRow = (row: Row): string => (row.is_members_only ? `${row.item_name ?? ''} (members)` : 'free');
+
+        expect(
+            describeRow({ item_name: 'Abyssal whip', is_members_only: true, page_name: '', page_name_sub: '' }),
+        ).toBe('Abyssal whip (members)');
+        expect(describeRow({ item_name: 'Bronze axe', is_members_only: false, page_name: '', page_name_sub: '' })).toBe(
+            'free',
+        );
+    });
+
+    test('leaves repeated fields and non-literal values unnarrowed', () => {
+        const wide: string = 'Abyssal whip';
+        const query = bucket('infobox_item')
+            .select('item_id', 'item_name')
+            .where('item_id', '4151')
+            .where('item_name', wide);
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = { item_id: ['4151'], item_name: 'Abyssal whip', page_name: '', page_name_sub: '' };
+
+        assertType<{ item_id: string[]; item_name: string } & BucketMetaFields>(mockRow);
+        expect(mockRow.item_id).toEqual(['4151']);
+    });
+
+    test('narrowing before select carries over to the selected fields', () => {
+        const query = bucket('exchange').where('name', 'Abyssal whip').select('name', 'value');
+        expect(query).toBeDefined();
+        type Result = InferBucketResult<typeof query>;
+
+        const mockRow: Result = { name: 'Abyssal whip', value: 120001, page_name: '', page_name_sub: '' };
+
+        const name: 'Abyssal whip' = mockRow.name;
+        expect(name).toBe('Abyssal whip');
+    });
+});
+
 describe('toUrl', () => {
     test('generates a valid OSRS Wiki API URL', () => {
         const url = bucket('exchange').select('name', 'value').toUrl();
@@ -242,6 +399,139 @@ describe('BucketResponse.from', () => {
     });
 });
 
+describe('nested', () => {
+    test('groups aliased join fields under the alias', () => {
+        const query = bucket('infobox_item')
+            .join('exchange', 'ex', 'item_name', 'name')
+            .select('item_name', 'ex.value', 'ex.limit');
+        const response = BucketResponse.from(query, {
+            bucketQuery: query.printSQL(),
+            bucket: [
+                {
+                    item_name: 'Abyssal whip',
+                    'ex.value': 120001,
+                    'ex.limit': 70,
+                    page_name: 'Abyssal whip',
+                    page_name_sub: '',
+                },
+            ],
+        });
+
+        const [row] = response.nested();
+
+        assertType<
+            | ({ item_name: string | null; ex: { value: number | null; limit: number | null } } & BucketMetaFields)
+            | undefined
+        >(row);
+        expect(row).toEqual({
+            item_name: 'Abyssal whip',
+            ex: { value: 120001, limit: 70 },
+            page_name: 'Abyssal whip',
+            page_name_sub: '',
+        });
+    });
+
+    test('nests alias wildcards and unaliased joins', () => {
+        const query = bucket('storeline')
+            .join('exchange', 'sold_item', 'name')
+            .join('infobox_item', 'item', 'sold_item', 'item_name')
+            .select('sold_by', 'exchange.value', 'item.*');
+        expect(query).toBeDefined();
+        type Row = NestedRow<InferBucketResult<typeof query>>;
+
+        const check = (row: Row): void => {
+            assertType<number | null>(row.exchange.value);
+            assertType<number | null>(row.item.weight);
+            // @ts-expect-error - flat joined keys are gone
+            void row['exchange.value'];
+        };
+
+        expect(check).toBeDefined();
+    });
+});
+
+describe('collapse', () => {
+    test('gathers the joined rows of each item under the alias', () => {
+        const query = bucket('infobox_item')
+            .join('storeline', 'shops', 'item_name', 'sold_item')
+            .select('item_name', 'weight', 'shops.sold_by', 'shops.store_sell_price');
+        const meta = { page_name: 'Bronze axe', page_name_sub: '' };
+        const response = BucketResponse.from(query, {
+            bucketQuery: query.printSQL(),
+            bucket: [
+                { ...meta, item_name: 'Bronze axe', weight: 1, 'shops.sold_by': 'Bob', 'shops.store_sell_price': '16' },
+                {
+                    ...meta,
+                    item_name: 'Bronze axe',
+                    weight: 1,
+                    'shops.sold_by': 'Nurmof',
+                    'shops.store_sell_price': '20',
+                },
+            ],
+        });
+
+        const [item] = response.collapse('item_name', 'shops');
+
+        assertType<
+            | ({
+                  item_name: string | null;
+                  weight: number | null;
+                  shops: { sold_by: string | null; store_sell_price: string | null }[];
+              } & BucketMetaFields)
+            | undefined
+        >(item);
+        expect(item?.shops.map((shop) => shop.sold_by)).toEqual(['Bob', 'Nurmof']);
+    });
+
+    test('only accepts joined aliases and main bucket keys', () => {
+        const query = bucket('infobox_item')
+            .join('storeline', 'shops', 'item_name', 'sold_item')
+            .select('item_name', 'shops.sold_by');
+        const response = BucketResponse.from(query, { bucketQuery: query.printSQL(), bucket: [] });
+
+        const check = (): void => {
+            // @ts-expect-error - not a join alias
+            response.collapse('item_name', 'exchange');
+            // @ts-expect-error - the key must not belong to the collapsed join
+            response.collapse('shops.sold_by', 'shops');
+        };
+
+        expect(check).toBeDefined();
+    });
+});
+
+describe('versions', () => {
+    test('version narrows version_anchor', () => {
+        const query = bucket('infobox_item').select('item_name', 'version_anchor').version('Full');
+        type Row = InferBucketResult<typeof query>;
+
+        assertType<'Full'>({} as Row['version_anchor']);
+        expect(query).toBeDefined();
+    });
+
+    test('byVersion groups rows by page', () => {
+        const query = bucket('infobox_monster').select('name', 'combat_level', 'default_version', 'version_anchor');
+        const response = BucketResponse.from(query, { bucketQuery: query.printSQL(), bucket: [] });
+
+        const goblin = response.byVersion().get('Goblin');
+
+        assertType<number | null | undefined>(goblin?.defaultVersion.combat_level);
+        expect(goblin).toBeUndefined();
+    });
+
+    test('byVersion needs default_version selected', () => {
+        const query = bucket('infobox_monster').select('name', 'combat_level');
+        const response = BucketResponse.from(query, { bucketQuery: query.printSQL(), bucket: [] });
+
+        const check = (): void => {
+            // @ts-expect-error - default_version is not selected
+            response.byVersion();
+        };
+
+        expect(check).toBeDefined();
+    });
+});
+
 describe('ValidField constrains select and where', () => {
     test('select accepts valid field names for the main bucket', () => {
         const sql = bucket('exchange').select('id', 'name', 'value').run({ encodeURI: false });
@@ -0,0 +1,145 @@
+import { bulkPrice, cheapestStore, fetchShopListings, toShopListing } from '../shops.js';
+import type { ShopListing } from '../shops.js';
+import { stubExecutor } from './helpers/stub-executor.js';
+
+const ROW = {
+    sold_by: "Gerrant's Fishy Business",
+    sold_item: 'Feather',
+    store_sell_price: '2',
+    store_buy_price: '1',
+    store_currency: 'Coins',
+    store_delta: '20',
+    store_stock: '1,000',
+    store_sell_multiplier: '1000',
+    store_buy_multiplier: '400',
+    restock_time: '60',
+};
+
+function listing(shop: string, extra: Partial<ShopListing> = {}): ShopListing {
+    return {
+        shop,
+        item: 'Feather',
+        currency: 'Coins',
+        sellPrice: 2,
+        buyPrice: 1,
+        stock: 1000,
+        delta: 20,
+        sellMultiplier: 1000,
+        buyMultiplier: 400,
+        restockTime: 60,
+        value: 2,
+        ...extra,
+    };
+}
+
+describe('toShopListing', () => {
+    test('parses the numeric fields', () => {
+        expect(toShopListing({ ...ROW, 'exchange.value': 2 })).toEqual(listing("Gerrant's Fishy Business"));
+    });
+
+    test.each([
+        { name: 'unlimited stock', field: 'store_stock', text: '∞', key: 'stock', expected: Infinity },
+        { name: 'unknown stock', field: 'store_stock', text: 'N/A', key: 'stock', expected: undefined },
+        { name: 'missing delta', field: 'store_delta', text: null, key: 'delta', expected: 0 },
+        {
+            name: 'missing multiplier',
+            field: 'store_sell_multiplier',
+            text: null,
+            key: 'sellMultiplier',
+            expected: 1000,
+        },
+        { name: 'missing currency', field: 'store_currency', text: null, key: 'currency', expected: 'Coins' },
+    ])('$name', ({ field, text, key, expected }) => {
+        expect(toShopListing({ ...ROW, [field]: text })).toMatchObject({ [key]: expected });
+    });
+
+    test('derives the value from the sell price when the item is not on the exchange', () => {
+        const parsed = toShopListing({ ...ROW, store_sell_price: '130', store_sell_multiplier: '1300' });
+
+        expect(parsed?.value).toBe(100);
+    });
+
+    test('skips rows without a shop or item', () => {
+        expect(toShopListing({ ...ROW, sold_by: null })).toBeUndefined();
+    });
+});
+
+describe('bulkPrice', () => {
+    test.each([
+        { name: 'one unit', quantity: 1, expected: 100 },
+        { name: 'rises by delta per unit bought', quantity: 3, expected: 100 + 103 + 106 },
+        { name: 'nothing', quantity: 0, expected: 0 },
+        { name: 'more than the stock', quantity: 11, expected: undefined },
+    ])('$name', ({ quantity, expected }) => {
+        expect(bulkPrice(listing('Shop', { value: 100, delta: 30, stock: 10 }), quantity)).toBe(expected);
+    });
+
+    test('rounds each unit down', () => {
+        expect(bulkPrice(listing('Shop', { value: 5, delta: 100 }), 3)).toBe(5 + 5 + 6);
+    });
+
+    test('is undefined without a value', () => {
+        expect(bulkPrice(listing('Shop', { value: undefined }), 1)).toBeUndefined();
+    });
+
+    test.each([
+        { name: 'an exchange value', overrides: { value: 37, delta: 13, sellMultiplier: 1300 } },
+        {
+            name: 'a value derived from the sell price',
+            overrides: { value: 7000 / 1300, delta: 20, sellMultiplier: 1300 },
+        },
+        { name: 'a falling price', overrides: { value: 250, delta: -3, sellMultiplier: 1000 } },
+    ])('matches a unit-by-unit sum for $name', ({ overrides }) => {
+        const shop = listing('Shop', { stock: Infinity, ...overrides });
+        let expected = 0;
+        for (let k = 0; k < 2500; k++) {
+            expected += Math.floor((overrides.value * (overrides.sellMultiplier + overrides.delta * k)) / 1000);
+        }
+
+        expect(bulkPrice(shop, 2500)).toBe(expected);
+    });
+
+    test('prices huge purchases from unlimited stock without iterating every unit', () => {
+        const total = bulkPrice(listing('Shop', { value: 1, delta: 0, stock: Infinity }), 1e9);
+
+        expect(total).toBe(1e9);
+    });
+});
+
+describe('cheapestStore', () => {
+    const listings = [
+        listing('Flat', { value: 100, sellMultiplier: 1100, delta: 0 }),
+        listing('Steep', { value: 100, sellMultiplier: 1000, delta: 80 }),
+        listing('Tokkul', { value: 100, sellMultiplier: 500, currency: 'Tokkul' }),
+        listing('Small', { value: 100, sellMultiplier: 900, stock: 2 }),
+    ];
+
+    test.each([
+        { name: 'one unit', options: {}, shop: 'Small', total: 90 },
+        { name: 'more than a small stock', options: { quantity: 3 }, shop: 'Steep', total: 100 + 108 + 116 },
+        { name: 'a bulk purchase', options: { quantity: 5 }, shop: 'Flat', total: 550 },
+        { name: 'another currency', options: { currency: 'Tokkul' }, shop: 'Tokkul', total: 50 },
+    ])('$name', ({ options, shop, total }) => {
+        expect(cheapestStore(listings, options)).toMatchObject({ listing: { shop }, total });
+    });
+
+    test('is undefined when no shop can supply the purchase', () => {
+        expect(cheapestStore(listings, { currency: 'Trading sticks' })).toBeUndefined();
+    });
+});
+
+describe('fetchShopListings', () => {
+    test('queries storeline with the exchange value', async () => {
+        const executor = stubExecutor(() => [
+            { ...ROW, page_name: 'Port Sarim', page_name_sub: '', 'exchange.value': 2 },
+            { ...ROW, sold_by: null, page_name: 'Nowhere', page_name_sub: '', 'exchange.value': 2 },
+        ]);
+
+        const listings = await fetchShopListings('Feather', { executor });
+
+        expect(executor.calls).toHaveLength(1);
+        expect(executor.calls[0]).toContain(".join('exchange', 'storeline.sold_item', 'exchange.name')");
+        expect(executor.calls[0]).toContain("{ 'sold_item', 'Feather' }");
+        expect(listings).toEqual([listing("Gerrant's Fishy Business")]);
+    });
+});
@@ -0,0 +1,145 @@
+import { readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { BUCKET_FIELDS, BUCKET_FIELD_TYPES } from '../generated/definitions.js';
+import { BucketResponse } from '../types.js';
+import type { BucketApiResponse } from '../types.js';
+import { mainBucketOf, validateRows } from '../validation.js';
+
+const currentDir = dirname(fileURLToPath(import.meta.url));
+
+function loadFixture<T = unknown>(filename: string): BucketApiResponse<T> {
+    const filePath = resolve(currentDir, 'fixtures', filename);
+    const content = readFileSync(filePath, 'utf-8');
+    return JSON.parse(content) as BucketApiResponse<T>;
+}
+
+describe('BUCKET_FIELD_TYPES', () => {
+    test('has metadata for every field in BUCKET_FIELDS', () => {
+        for (const [bucketName, fields] of Object.entries(BUCKET_FIELDS)) {
+            expect(Object.keys(BUCKET_FIELD_TYPES[bucketName] ?? {})).toEqual(fields);
+        }
+    });
+
+    test('marks scalar fields nullable and repeated fields non-nullable', () => {
+        for (const fields of Object.values(BUCKET_FIELD_TYPES)) {
+            for (const schema of Object.values(fields)) {
+                expect(schema.nullable).toBe(!schema.repeated);
+            }
+        }
+    });
+});
+
+describe('validateRows', () => {
+    test.each([
+        { name: 'TEXT', field: 'name', good: 'Abyssal whip', bad: 4151, received: 'number' },
+        { name: 'INTEGER', field: 'value', good: 120001, bad: 1.5, received: 'number' },
+        { name: 'BOOLEAN', field: 'is_alchable', good: true, bad: 'yes', received: 'string' },
+    ])('checks $name fields', ({ field, good, bad, received }) => {
+        expect(validateRows([{ [field]: good }], { bucket: 'exchange' }).valid).toBe(true);
+        expect(validateRows([{ [field]: bad }], { bucket: 'exchange' }).mismatches).toEqual([
+            { row: 0, field, expected: expect.any(String) as string, received, value: bad },
+        ]);
+    });
+
+    test.each([
+        { name: 'DOUBLE accepts decimals', field: 'DOUBLE_NR', value: 0.4, valid: true },
+        { name: 'DOUBLE rejects strings', field: 'DOUBLE_NR', value: '0.4', valid: false },
+        { name: 'PAGE accepts strings', field: 'PAGE_NR', value: 'Abyssal whip', valid: true },
+        { name: 'repeated accepts arrays', field: 'INTEGER_R', value: [1, 2], valid: true },
+        { name: 'repeated rejects scalars', field: 'INTEGER_R', value: 1, valid: false },
+    ])('$name', ({ field, value, valid }) => {
+        expect(validateRows([{ [field]: value }], { bucket: 'testing_bucket' }).valid).toBe(valid);
+    });
+
+    test('reports each bad element of a repeated field', () => {
+        const result = validateRows([{ TEXT_R: ['a', 1, 'b', false] }], { bucket: 'testing_bucket' });
+
+        expect(result.mismatches).toEqual([
+            { row: 0, field: 'TEXT_R[1]', expected: 'TEXT[]', received: 'number', value: 1 },
+            { row: 0, field: 'TEXT_R[3]', expected: 'TEXT[]', received: 'boolean', value: false },
+        ]);
+    });
+
+    test('accepts null for nullable fields', () => {
+        expect(validateRows([{ name: null, value: null }], { bucket: 'exchange' }).valid).toBe(true);
+    });
+
+    test('reports null for non-nullable fields unless allowNull is set', () => {
+        const rows = [{ TEXT_R: null }];
+
+        expect(validateRows(rows, { bucket: 'testing_bucket' }).mismatches).toEqual([
+            { row: 0, field: 'TEXT_R', expected: 'TEXT[]', received: 'null', value: null },
+        ]);
+        expect(validateRows(rows, { bucket: 'testing_bucket', allowNull: true }).valid).toBe(true);
+    });
+
+    test('checks joined fields against the joined bucket', () => {
+        const result = validateRows([{ item_name: 'Abyssal whip', 'exchange.value': 'lots' }], {
+            bucket: 'infobox_item',
+        });
+
+        expect(result.mismatches).toEqual([
+            { row: 0, field: 'exchange.value', expected: 'INTEGER', received: 'string', value: 'lots' },
+        ]);
+    });
+
+    test('skips meta fields and keys without metadata', () => {
+        const rows = [{ page_name: 1, page_name_sub: null, mystery: [], 'nope.field': 1 }];
+
+        expect(validateRows(rows, { bucket: 'exchange' }).valid).toBe(true);
+        expect(validateRows([{ name: 1 }]).valid).toBe(true);
+    });
+
+    test('reports rows that are not objects', () => {
+        expect(validateRows([null, 'row'], { bucket: 'exchange' }).mismatches).toEqual([
+            { row: 0, field: '', expected: 'object', received: 'null', value: null },
+            { row: 1, field: '', expected: 'object', received: 'string', value: 'row' },
+        ]);
+    });
+
+    test('collects mismatches across every row instead of stopping at the first', () => {
+        const rows = [{ id: 'a', name: 1 }, { id: 2 }, { id: 2.5 }];
+
+        const result = validateRows(rows, { bucket: 'exchange' });
+
+        expect(result.valid).toBe(false);
+        expect(result.mismatches.map((m) => `${String(m.row)}:${m.field}`)).toEqual(['0:id', '0:name', '2:id']);
+    });
+});
+
+describe('mainBucketOf', () => {
+    test.each([
+        { query: "bucket('exchange').select('id').run()", expected: 'exchange' },
+        { query: 'bucket("infobox_item").run()', expected: 'infobox_item' },
+        { query: "  bucket( 'dropsline' ).run()", expected: 'dropsline' },
+        { query: 'not a query', expected: undefined },
+    ])('$query', ({ query, expected }) => {
+        expect(mainBucketOf(query)).toBe(expected);
+    });
+});
+
+describe('BucketResponse.validate', () => {
+    test.each([
+        { fixture: 'response_success.json' },
+        { fixture: 'response_with_nulls.json' },
+        { fixture: 'response_multiple_rows.json' },
+        { fixture: 'response_with_arrays.json' },
+        { fixture: 'response_empty.json' },
+    ])('accepts $fixture', ({ fixture }) => {
+        expect(new BucketResponse(loadFixture(fixture)).validate()).toEqual({ valid: true, mismatches: [] });
+    });
+
+    test('accepts an explicit bucket override', () => {
+        const response = new BucketResponse({ bucketQuery: '', bucket: [{ name: 1 }] });
+
+        expect(response.validate().valid).toBe(true);
+        expect(response.validate({ bucket: 'exchange' }).valid).toBe(false);
+    });
+
+    test('throws when the response contains an error', () => {
+        const response = new BucketResponse(loadFixture('response_error.json'));
+
+        expect(() => response.validate()).toThrow('Bucket API Error');
+    });
+});
@@ -3,6 +3,22 @@
  */
 export * from './generated/definitions.js';
 
+import type { DecodeOptions, DecodeResult, DecodedRow } from './decoders.js';
+import { decodeRows } from './decoders.js';
+import type { BucketApiError } from './errors.js';
+import { classifyBucketApiError } from './errors.js';
+import type {
+    BucketMetaFields,
+    CollapsedRow,
+    GroupableFields,
+    JoinAliases,
+    NestedRow,
+    NumericFields,
+    VersionGroup,
+} from './response-types.js';
+import type { ValidationOptions, ValidationResult } from './validation.js';
+import { mainBucketOf, validateRows } from './validation.js';
+
 export type ScalarValue = string | number | boolean;
 export type Operator = '=' | '!=' | '>' | '<' | '>=' | '<=';
 export type OrderByDirection = 'asc' | 'desc';
@@ -11,8 +27,21 @@ export const QUERY_DEFAULTS = {
     LIMIT: 500,
     MAX_LIMIT: 5000,
     OFFSET: 0,
+    MAX_URL_LENGTH: 4000,
 };
 
+/**
+ * Options for walking a query page by page with
+ * {@link BucketQueryBuilder.iterate}, {@link BucketQueryBuilder.iteratePages}
+ * and {@link BucketQueryBuilder.fetchAll}.
+ */
+export interface PaginationOptions {
+    /** Rows requested per page, rounded down. Clamped to `QUERY_DEFAULTS.MAX_LIMIT`, which is also the default. */
+    pageSize?: number;
+    /** Hard cap on the total number of rows fetched, rounded down. Unlimited by default. */
+    maxRows?: number;
+}
+
 export interface BucketLogic {
     _type: 'AND' | 'OR';
     conditions: BucketCondition[];
@@ -74,6 +103,22 @@ export interface BucketApiResponse<T = unknown> {
     error?: string;
 }
 
+/** Groups a flat row's `prefix.field` keys into `{ prefix: { field } }` objects. */
+function nestRow(row: Record<string, unknown>): Record<string, unknown> {
+    const nested: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row)) {
+        const dot = key.indexOf('.');
+        if (dot === -1) {
+            nested[key] = value;
+            continue;
+        }
+        const prefix = key.slice(0, dot);
+        const group = (nested[prefix] ??= {}) as Record<string, unknown>;
+        group[key.slice(dot + 1)] = value;
+    }
+    return nested;
+}
+
 /**
  * Helper class to manipulate and access bucket API response data.
  *
@@ -91,7 +136,7 @@ export interface BucketApiResponse<T = unknown> {
  * // Option 2: Automatic inference via .from()
  * const query = bucket('exchange').select('id', 'name');
  * const response = BucketResponse.from(query, raw);
- * response.first()?.name; // ✅ typed as string
+ * response.first()?.name; // ✅ typed as string | null
  * ```
  */
 export class BucketResponse<T = unknown> {
@@ -110,7 +155,7 @@ export class BucketResponse<T = unknown> {
      * const query = bucket('exchange').select('name', 'value').where('name', 'Abyssal whip');
      * const raw = await fetch(query.toUrl()).then(r => r.json());
      * const response = BucketResponse.from(query, raw);
-     * response.first()?.value; // ✅ typed as number
+     * response.first()?.value; // ✅ typed as number | null
      * ```
      */
     static from<Q extends { readonly __resultType: unknown }>(
@@ -131,11 +176,13 @@ export class BucketResponse<T = unknown> {
 
     /**
      * The array of results.
-     * Throws if the response contains an error.
+     *
+     * @throws {BucketApiError} If the response contains an error; see {@link BucketResponse.apiError}.
      */
     get results(): T[] {
-        if (this.raw.error) {
-            throw new Error(`Bucket API Error: ${this.raw.error}`);
+        const apiError = this.apiError;
+        if (apiError) {
+            throw apiError;
         }
         return this.raw.bucket ?? [];
     }
@@ -147,10 +194,299 @@ export class BucketResponse<T = unknown> {
         return this.raw.error;
     }
 
+    /**
+     * The error as a classified {@link BucketApiError} (e.g. an
+     * `UnknownBucketApiError`), or `undefined` for a successful response.
+     * This is the error {@link BucketResponse.results} throws.
+     */
+    get apiError(): BucketApiError | undefined {
+        return this.raw.error ? classifyBucketApiError(this.raw.error, this.raw.bucketQuery) : undefined;
+    }
+
     /**
      * Returns the first result or undefined.
      */
     first(): T | undefined {
         return this.results[0];
     }
+
+    /**
+     * Checks every row against the generated schema metadata and reports
+     * per-field mismatches, without throwing on the first one.
+     *
+     * This is opt-in: `results` never validates. Unprefixed keys are checked
+     * against the main bucket (read from the echoed query unless
+     * `options.bucket` is given) and `bucket.field` keys against the joined
+     * bucket. Keys without schema metadata are skipped.
+     *
+     * @param options - Main bucket override and null handling.
+     * @throws If the response contains an error, like {@link BucketResponse.results}.
+     *
+     * @example
+     * ```typescript
+     * const { valid, mismatches } = response.validate();
+     * if (!valid) {
+     *     for (const m of mismatches) console.warn(`row ${m.row}: ${m.field} expected ${m.expected}, got ${m.received}`);
+     * }
+     * ```
+     */
+    validate(options: ValidationOptions = {}): ValidationResult {
+        const bucket = options.bucket ?? mainBucketOf(this.raw.bucketQuery);
+        return validateRows(this.results, bucket === undefined ? options : { ...options, bucket });
+    }
+
+    /**
+     * The rows with their JSON-in-string fields (`drop_json`,
+     * `production_json`, ...) parsed by the registered decoders. Like
+     * {@link BucketResponse.validate} this is opt-in and reads the main
+     * bucket from the echoed query unless `options.bucket` is given; joined
+     * fields are decoded when keyed `bucket.field`. Malformed content does not
+     * throw: the field is `null` and the problem is listed in `failures`.
+     *
+     * @param options - The main bucket. Pass it to type unprefixed fields when the
+     *   response was not created from a builder of a literal bucket.
+     * @throws {BucketApiError} If the response contains an error, like {@link BucketResponse.results}.
+     *
+     * @example
+     * ```typescript
+     * const response = await bucket('dropsline').select('item_name', 'drop_json').execute();
+     * const { rows, failures } = response.decoded({ bucket: 'dropsline' });
+     * rows[0]?.drop_json?.Rarity; // '1/128'
+     * // failures: [{ row: 3, field: 'drop_json', message: 'Unexpected end of JSON input', value: '{"Rarity":' }]
+     * ```
+     */
+    decoded<B extends string = string>(options: DecodeOptions<B> = {}): DecodeResult<DecodedRow<T, B>> {
+        const bucket = options.bucket ?? mainBucketOf(this.raw.bucketQuery);
+        return decodeRows<T, B>(this.results, bucket === undefined ? options : { bucket: bucket as B });
+    }
+
+    /**
+     * The rows with joined fields grouped under their alias, e.g.
+     * `{ item_name, 'ex.value' }` becomes `{ item_name, ex: { value } }`.
+     * Keys are split at the first dot; see {@link NestedRow}.
+     *
+     * @throws {BucketApiError} If the response contains an error, like {@link BucketResponse.results}.
+     *
+     * @example
+     * ```typescript
+     * const response = await bucket('infobox_item')
+     *     .join('exchange', 'ex', 'item_name', 'name')
+     *     .select('item_name', 'ex.value', 'ex.limit')
+     *     .execute();
+     * response.nested()[0]?.ex.value; // ✅ typed as number | null
+     * ```
+     */
+    nested(): NestedRow<T>[] {
+        return this.results.map((row) => nestRow(row as Record<string, unknown>) as NestedRow<T>);
+    }
+
+    // collapse() and the aggregates are typed through `this` rather than `T`
+    // so that `BucketResponse<T>` stays covariant in `T`, which the
+    // builder's narrowing overloads rely on.
+    /**
+     * Collapses a one-to-many join: rows sharing the same `keyField` value
+     * become one row, with the `joinAlias.field` columns gathered into a
+     * `joinAlias` array. The other columns are taken from the first row of
+     * each group, and groups keep first-seen order. Joined rows whose fields
+     * are all `null` (a main row without a match) are left out, so it
+     * yields an empty array.
+     *
+     * @param keyField - The main bucket field that identifies a row, e.g. `'item_name'`.
+     * @param joinAlias - The alias (or unaliased bucket name) of the joined bucket to collect.
+     * @throws {BucketApiError} If the response contains an error, like {@link BucketResponse.results}.
+     *
+     * @example
+     * ```typescript
+     * const response = await bucket('infobox_item')
+     *     .join('storeline', 'shops', 'item_name', 'sold_item')
+     *     .select('item_name', 'weight', 'shops.sold_by', 'shops.store_sell_price')
+     *     .execute();
+     * const items = response.collapse('item_name', 'shops');
+     * // [{ item_name: 'Bronze axe', weight: 1, shops: [{ sold_by: "Bob's Brilliant Axes.", store_sell_price: '16' }, ...] }]
+     * ```
+     */
+    collapse<R, A extends JoinAliases<R> & string>(
+        this: BucketResponse<R>,
+        keyField: Exclude<GroupableFields<R>, `${A}.${string}`>,
+        joinAlias: A,
+    ): CollapsedRow<R, A>[] {
+        const prefix = `${joinAlias}.`;
+        const groups = new Map<unknown, Record<string, unknown>>();
+        for (const row of this.results as Record<string, unknown>[]) {
+            const entries = Object.entries(row);
+            let group = groups.get(row[keyField]);
+            if (!group) {
+                group = Object.fromEntries(entries.filter(([key]) => !key.startsWith(prefix)));
+                group[joinAlias] = [];
+                groups.set(row[keyField], group);
+            }
+            const joined = entries.filter(([key]) => key.startsWith(prefix));
+            if (joined.some(([, value]) => value !== null)) {
+                (group[joinAlias] as unknown[]).push(
+                    Object.fromEntries(joined.map(([key, value]) => [key.slice(prefix.length), value])),
+                );
+            }
+        }
+        return [...groups.values()] as CollapsedRow<R, A>[];
+    }
+
+    /**
+     * Groups the rows of multi-version pages by page, in first-seen order.
+     * Each group holds the page's default version and every version keyed
+     * by `version_anchor` (when selected) or `page_name_sub`.
+     *
+     * Only available when `default_version` is selected.
+     *
+     * @throws {BucketApiError} If the response contains an error, like {@link BucketResponse.results}.
+     *
+     * @example
+     * ```typescript
+     * const response = await bucket('infobox_monster')
+     *     .select('name', 'combat_level', 'default_version', 'version_anchor')
+     *     .where('name', 'Goblin')
+     *     .execute();
+     * const goblin = response.byVersion().get('Goblin');
+     * goblin?.defaultVersion.combat_level; // 5
+     * goblin?.versions.get('Level 13')?.combat_level; // 13
+     * ```
+     */
+    byVersion<R extends BucketMetaFields & { default_version: boolean | null }>(
+        this: BucketResponse<R>,
+    ): ReadonlyMap<string, VersionGroup<R>> {
+        const groups = new Map<string, VersionGroup<R>>();
+        for (const row of this.results) {
+            const anchor = (row as Record<string, unknown>).version_anchor;
+            const key = typeof anchor === 'string' && anchor !== '' ? anchor : row.page_name_sub;
+            const group = groups.get(row.page_name);
+            if (!group) {
+                groups.set(row.page_name, {
+                    page: row.page_name,
+                    defaultVersion: row,
+                    versions: new Map([[key, row]]),
+                });
+                continue;
+            }
+            if (!group.versions.has(key)) group.versions.set(key, row);
+            if (row.default_version === true && group.defaultVersion.default_version !== true) {
+                group.defaultVersion = row;
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * Groups the rows by the value of a scalar field, in first-seen order.
+     * `null` values form their own group.
+     *
+     * @param field - The field to group by.
+     * @throws {BucketApiError} If the response contains an error, like {@link BucketResponse.results}.
+     *
+     * @example
+     * ```typescript
+     * const bySeller = response.groupBy('sold_by'); // Map<string | null, Row[]>
+     * for (const [shop, rows] of bySeller) console.log(shop, rows.length);
+     * ```
+     */
+    groupBy<R, K extends GroupableFields<R>>(this: BucketResponse<R>, field: K): ReadonlyMap<R[K], R[]> {
+        const groups = new Map<R[K], R[]>();
+        for (const row of this.results) {
+            const group = groups.get(row[field]);
+            if (group) {
+                group.push(row);
+            } else {
+                groups.set(row[field], [row]);
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * Counts the rows per value of a scalar field, in first-seen order.
+     *
+     * @param field - The field to count by.
+     * @throws {BucketApiError} If the response contains an error.
+     */
+    countBy<R, K extends GroupableFields<R>>(this: BucketResponse<R>, field: K): ReadonlyMap<R[K], number> {
+        const counts = new Map<R[K], number>();
+        for (const row of this.results) {
+            counts.set(row[field], (counts.get(row[field]) ?? 0) + 1);
+        }
+        return counts;
+    }
+
+    /**
+     * Returns the distinct values of a scalar field, in first-seen order.
+     *
+     * @param field - The field to read.
+     * @throws {BucketApiError} If the response contains an error.
+     */
+    distinct<R, K extends GroupableFields<R>>(this: BucketResponse<R>, field: K): R[K][] {
+        return [...new Set(this.results.map((row) => row[field]))];
+    }
+
+    /**
+     * Sums a numeric field, skipping `null`s. Returns `0` when there are no values.
+     *
+     * @param field - A number-typed field.
+     * @throws {BucketApiError} If the response contains an error.
+     *
+     * @example
+     * ```typescript
+     * const response = await bucket('exchange').select('name', 'value').whereIn('name', names).execute();
+     * const total = response.sum('value');
+     * ```
+     */
+    sum<R>(this: BucketResponse<R>, field: NumericFields<R>): number {
+        return this.numbers(field).reduce((total, value) => total + value, 0);
+    }
+
+    /**
+     * Averages a numeric field, skipping `null`s. Returns `undefined` when there are no values.
+     *
+     * @param field - A number-typed field.
+     * @throws {BucketApiError} If the response contains an error.
+     */
+    avg<R>(this: BucketResponse<R>, field: NumericFields<R>): number | undefined {
+        const values = this.numbers(field);
+        return values.length === 0 ? undefined : values.reduce((total, value) => total + value, 0) / values.length;
+    }
+
+    /**
+     * The smallest value of a numeric field, skipping `null`s. Returns `undefined` when there are no values.
+     *
+     * @param field - A number-typed field.
+     * @throws {BucketApiError} If the response contains an error.
+     */
+    min<R>(this: BucketResponse<R>, field: NumericFields<R>): number | undefined {
+        const values = this.numbers(field);
+        return values.length === 0 ? undefined : values.reduce((a, b) => Math.min(a, b));
+    }
+
+    /**
+     * The largest value of a numeric field, skipping `null`s. Returns `undefined` when there are no values.
+     *
+     * @param field - A number-typed field.
+     * @throws {BucketApiError} If the response contains an error.
+     */
+    max<R>(this: BucketResponse<R>, field: NumericFields<R>): number | undefined {
+        const values = this.numbers(field);
+        return values.length === 0 ? undefined : values.reduce((a, b) => Math.max(a, b));
+    }
+
+    /** The non-null values of a numeric field. */
+    private numbers<R>(this: BucketResponse<R>, field: NumericFields<R>): number[] {
+        return this.results
+            .map((row) => row[field] as unknown)
+            .filter((value): value is number => typeof value === 'number');
+    }
+
+    /**
+     * Returns the raw API payload this response wraps.
+     *
+     * Called by `JSON.stringify`, so a response serialises back into the
+     * exact shape the API returned and can be revived with `new BucketResponse(raw)`.
+     */
+    toJSON(): BucketApiResponse<T> {
+        return this.raw;
+    }
 }
@@ -0,0 +1,153 @@
+/**
+ * Runtime validation of response rows against the generated bucket schemas.
+ *
+ * The API payload is cast to the inferred row type without any checks, so a
+ * schema drift or an unexpected value goes unnoticed until it breaks
+ * downstream code. {@link validateRows} walks every row and
+ * compares each value with the field's {@link BucketFieldSchema}, collecting
+ * every mismatch instead of stopping at the first one.
+ *
+ * @module validation
+ */
+
+import type { BucketFieldSchema } from './generated/definitions.js';
+import { BUCKET_FIELD_TYPES } from './generated/definitions.js';
+
+/**
+ * A single value that does not match its field's schema.
+ */
+export interface FieldMismatch {
+    /** Index of the offending row. */
+    row: number;
+    /** The row key, e.g. `'weight'` or `'exchange.value'`. Repeated elements are suffixed with `[i]`. */
+    field: string;
+    /** The expected wiki type, suffixed with `[]` for repeated fields (e.g. `'TEXT[]'`). */
+    expected: string;
+    /** A description of what was received: `'null'`, `'array'`, or the `typeof` the value. */
+    received: string;
+    /** The offending value. */
+    value: unknown;
+}
+
+/**
+ * The outcome of validating a set of rows.
+ */
+export interface ValidationResult {
+    valid: boolean;
+    mismatches: FieldMismatch[];
+}
+
+/**
+ * Options for {@link validateRows} and {@link BucketResponse.validate}.
+ */
+export interface ValidationOptions {
+    /**
+     * The main bucket whose schema applies to unprefixed keys.
+     * {@link BucketResponse.validate} reads it from the echoed query when omitted.
+     */
+    bucket?: string;
+    /**
+     * Accept `null` for every field, including repeated fields and fields
+     * generated with `--non-nullable`. Defaults to `false`, which accepts
+     * `null` only where the schema declares the field nullable.
+     */
+    allowNull?: boolean;
+}
+
+/**
+ * Extracts the main bucket name from a Lua query string such as
+ * `bucket('exchange').select(...)`. Returns `undefined` when it cannot be found.
+ */
+export function mainBucketOf(luaQuery: string): string | undefined {
+    return /^\s*bucket\(\s*['"]([^'"]+)['"]\s*\)/.exec(luaQuery)?.[1];
+}
+
+/**
+ * Resolves a row key to its schema: unprefixed keys belong to the main bucket,
+ * `bucket.field` keys to the joined bucket. Unknown keys (including the
+ * auto-injected meta fields) resolve to `undefined` and are not checked.
+ */
+function schemaFor(mainBucket: string | undefined, key: string): BucketFieldSchema | undefined {
+    const dot = key.indexOf('.');
+    if (dot === -1) {
+        return mainBucket === undefined ? undefined : BUCKET_FIELD_TYPES[mainBucket]?.[key];
+    }
+    return BUCKET_FIELD_TYPES[key.slice(0, dot)]?.[key.slice(dot + 1)];
+}
+
+/** Checks a single (non-repeated) value against a wiki type. */
+function matchesType(schema: BucketFieldSchema, value: unknown): boolean {
+    switch (schema.type) {
+        case 'TEXT':
+        case 'PAGE':
+            return typeof value === 'string';
+        case 'INTEGER':
+            return Number.isInteger(value);
+        case 'DECIMAL':
+        case 'DOUBLE':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'BOOLEAN':
+            return typeof value === 'boolean';
+    }
+}
+
+/** Names the kind of value received, for mismatch reports. */
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Validates rows against the generated schema metadata.
+ *
+ * @param rows - The rows to check.
+ * @param options - The main bucket and null handling.
+ * @returns Every mismatch found, in row order.
+ *
+ * @example
+ * ```typescript
+ * const { valid, mismatches } = validateRows(rows, { bucket: 'infobox_item' });
+ * // mismatches: [{ row: 0, field: 'weight', expected: 'DOUBLE', received: 'string', value: '0.4' }]
+ * ```
+ */
+export function validateRows(rows: readonly unknown[], options: ValidationOptions = {}): ValidationResult {
+    const mismatches: FieldMismatch[] = [];
+
+    rows.forEach((row, index) => {
+        if (typeof row !== 'object' || row === null) {
+            mismatches.push({ row: index, field: '', expected: 'object', received: describeValue(row), value: row });
+            return;
+        }
+
+        for (const [field, value] of Object.entries(row)) {
+            const schema = schemaFor(options.bucket, field);
+            if (!schema) continue;
+
+            const expected = schema.repeated ? `${schema.type}[]` : schema.type;
+            const report = (path: string, actual: unknown): void => {
+                mismatches.push({ row: index, field: path, expected, received: describeValue(actual), value: actual });
+            };
+
+            if (value === null) {
+                if (!schema.nullable && !options.allowNull) report(field, value);
+                continue;
+            }
+
+            if (!schema.repeated) {
+                if (!matchesType(schema, value)) report(field, value);
+                continue;
+            }
+
+            if (!Array.isArray(value)) {
+                report(field, value);
+                continue;
+            }
+            value.forEach((element: unknown, i) => {
+                if (!matchesType(schema, element)) report(`${field}[${String(i)}]`, element);
+            });
+        }
+    });
+
+    return { valid: mismatches.length === 0, mismatches };
+}